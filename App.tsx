@@ -1,8 +1,37 @@
-import React, { useState, useMemo, useEffect, useCallback } from 'react';
+import React, { useState, useMemo, useEffect, useCallback, useRef } from 'react';
 import MonthlyComparisonChart from './components/MonthlyComparisonChart';
+import NetWorthChart from './components/NetWorthChart';
 import DailyExpenseChart from './components/DailyExpenseChart';
+import CategoryBreakdownChart from './components/CategoryBreakdownChart';
+import CategoryBudgets from './components/CategoryBudgets';
+import RecurringManager from './components/RecurringManager';
+import ExchangeRates from './components/ExchangeRates';
+import RolloverHistory from './components/RolloverHistory';
+import DataManager from './components/DataManager';
+import TransactionHistory from './components/TransactionHistory';
 import ConfigSetup from './components/ConfigSetup';
-import { Transaction, TransactionType, TransactionSource, MonthlyData, DailyData } from './types';
+import Auth, { GoogleAuth, createGoogleAuth, loadGoogleLibraries } from './components/Auth';
+import SchemaWizard from './components/SchemaWizard';
+import QuarantinePanel from './components/QuarantinePanel';
+import SavingsGoals from './components/SavingsGoals';
+import DebtManager from './components/DebtManager';
+import UndoToast from './components/UndoToast';
+import { Transaction, TransactionType, TransactionSource, MonthlyData, DailyData, CategoryData, CategoryBudgetStatus, ConnectionConfig, ConnectionProfile, StorageMode, ConfigValues, OutboxEntry, OutboxOperation, OutboxStatus, RecurringTemplate, Account, ExchangeRate, RolloverEntry, SavingsGoal, Debt, BudgetPeriod, BudgetPeriodType, PeriodSettings, QuarantinedRow } from './types';
+import { DataStore, connectSheetsStore, openLocalStore, getErrorMessage, parseListValue, formatListValue, setAccessTokenRefresher, getConflictRemote } from './data';
+import { replayOutbox, applyOutboxEntries, runExclusive, isTransientError, isQueuedInsert, TransactionChanges, diffTransactions, mergeChanges, hasChanges } from './sync';
+import { Command, CommandHistory, EMPTY_HISTORY, recordCommand, markUndone, markRedone, isTextEntryTarget } from './history';
+import { toDateKey, getDueOccurrences, createOccurrence } from './recurring';
+import { DEFAULT_BASE_CURRENCY, COMMON_CURRENCIES, formatMoney, createConverter } from './currency';
+import { processMonthlyData, processDailyData } from './reports';
+import { forecastPeriod } from './forecast';
+import { DEFAULT_PERIOD_SETTINGS, getPeriod, shiftPeriod, isInPeriod, describePeriod, parsePeriodSettings } from './period';
+import { BackupBundle, createBackupBundle, getRestorableConfig } from './exporter';
+import { SchemaPlan, inspectSpreadsheet, needsConfirmation, applySchemaPlan } from './schema';
+import { loadProfiles, saveProfile, deleteProfile, getActiveProfileId, setActiveProfileId, findMatchingProfile } from './profiles';
+import { isActiveRollover, isPreviousPeriodSettled, createRolloverEntry, dedupeRollovers } from './rollover';
+import { computeBalanceHistory } from './networth';
+import { computeGoalProgress, getProvisionDirection } from './goals';
+import { computeDebtStatus, getRepaymentType, sumDebtBalances } from './debts';
 
 // Let TypeScript know gapi is a global variable
 // Fix: Correctly declare the global `gapi` object on the Window interface to resolve TypeScript errors.
@@ -13,173 +42,518 @@ declare global {
 }
 
 // --- CONFIGURATION ---
-const SCOPES = "https://www.googleapis.com/auth/spreadsheets";
 const DISCOVERY_DOCS = ["https://sheets.googleapis.com/$discovery/rest?version=v4"];
-const TRANSACTIONS_SHEET_NAME = 'Transactions';
-const CONFIG_SHEET_NAME = 'Config';
+const DEFAULT_CATEGORIES = ['Ăn uống', 'Đi lại', 'Nhà ở', 'Hóa đơn', 'Mua sắm', 'Giải trí', 'Sức khỏe', 'Giáo dục', 'Lương', 'Khác'];
+const UNCATEGORIZED_LABEL = 'Chưa phân loại';
+const BUDGET_KEY_PREFIX = 'BUDGET:'; // Config rows like "BUDGET:Ăn uống | 3000000"
+const BUDGET_THRESHOLDS = [60, 85, 100];
+const REMOTE_POLL_INTERVAL_MS = 60 * 1000; // How often a visible tab checks the sheet for edits from other devices
+const ACCOUNT_KEY_PREFIX = 'ACCOUNT:'; // Config rows like "ACCOUNT:acc-123 | {"name":"Tiền mặt","initialBalance":500000,"currency":"VND"}"
 
-// Helper function to format currency in VND
-const formatCurrency = (value: number) => 
-    new Intl.NumberFormat('vi-VN', { style: 'currency', currency: 'VND' }).format(value);
+// The built-in accounts always exist and keep their initial balance in the original Config rows,
+// so spreadsheets created before user-defined accounts load without any migration
+const BUILT_IN_ACCOUNTS = [
+    { id: TransactionSource.GENERAL as string, name: 'Nguồn chính', balanceKey: 'INITIAL_GENERAL_BALANCE' },
+    { id: TransactionSource.PROVISION as string, name: 'Quỹ dự phòng', balanceKey: 'INITIAL_PROVISION_BALANCE' },
+];
 
-// Helper function to process raw transactions into monthly summary data for the chart
-const processMonthlyData = (transactions: Transaction[]): MonthlyData[] => {
-    const monthlySummary: { [key: string]: { income: number, expense: number } } = {};
+// Editable form of an account in the settings panel; the balance stays a string while typing
+interface AccountSettings {
+    id: string;
+    name: string;
+    initialBalance: string;
+    currency: string;
+}
 
-    transactions.forEach(tx => {
-        const month = tx.date.substring(0, 7); // "YYYY-MM"
-        if (!monthlySummary[month]) {
-            monthlySummary[month] = { income: 0, expense: 0 };
+// Helper function to read the account list from the Config sheet; accounts saved before
+// currencies existed are in the base currency
+const parseAccountSettings = (configMap: ConfigValues): AccountSettings[] => {
+    const baseCurrency = configMap['BASE_CURRENCY'] || DEFAULT_BASE_CURRENCY;
+    const accounts: AccountSettings[] = BUILT_IN_ACCOUNTS.map(account => ({
+        id: account.id,
+        name: account.name,
+        initialBalance: configMap[account.balanceKey] || '0',
+        currency: baseCurrency,
+    }));
+
+    Object.keys(configMap)
+        .filter(key => key.startsWith(ACCOUNT_KEY_PREFIX) && configMap[key])
+        .forEach(key => {
+            const id = key.substring(ACCOUNT_KEY_PREFIX.length);
+            let stored: { name?: string, initialBalance?: number, currency?: string } = {};
+            try {
+                stored = JSON.parse(configMap[key]);
+            } catch {
+                stored = { name: configMap[key] }; // Hand-edited rows may hold just a name
+            }
+            const builtIn = accounts.find(account => account.id === id);
+            if (builtIn) {
+                builtIn.name = stored.name || builtIn.name;
+                builtIn.currency = stored.currency || baseCurrency;
+            } else {
+                accounts.push({ id, name: stored.name || id, initialBalance: String(stored.initialBalance ?? 0), currency: stored.currency || baseCurrency });
+            }
+        });
+
+    return accounts;
+};
+
+// Helper function to turn the account list back into Config rows; removed accounts are blanked
+const formatAccountSettings = (accounts: AccountSettings[], removedIds: string[]): ConfigValues => {
+    const values: ConfigValues = {};
+    accounts.forEach(account => {
+        const builtIn = BUILT_IN_ACCOUNTS.find(b => b.id === account.id);
+        if (builtIn) {
+            values[builtIn.balanceKey] = account.initialBalance;
+            values[`${ACCOUNT_KEY_PREFIX}${account.id}`] = JSON.stringify({ name: account.name, currency: account.currency });
+        } else {
+            values[`${ACCOUNT_KEY_PREFIX}${account.id}`] = JSON.stringify({ name: account.name, initialBalance: parseFloat(account.initialBalance) || 0, currency: account.currency });
         }
+    });
+    removedIds.forEach(id => { values[`${ACCOUNT_KEY_PREFIX}${id}`] = ''; });
+    return values;
+};
+
+// Helper function to compute every account's balance, in the account's own currency, from its
+// initial balance and all transactions. amountIn converts a transaction's amount into an account's currency.
+const computeBalances = (accounts: Account[], transactions: Transaction[], rollovers: RolloverEntry[], amountIn: (tx: Transaction, accountId: string) => number): { [accountId: string]: number } => {
+    const balances: { [accountId: string]: number } = {};
+    accounts.forEach(account => { balances[account.id] = account.initialBalance; });
+    rollovers.filter(isActiveRollover).forEach(entry => {
+        balances[entry.account] = (balances[entry.account] || 0) + entry.accountAmount;
+    });
 
-        if (tx.type === TransactionType.INCOME) {
-            monthlySummary[month].income += tx.amount;
-        } else if (tx.type === TransactionType.EXPENSE) {
-            monthlySummary[month].expense += tx.amount;
+    transactions.forEach(tx => {
+        switch (tx.type) {
+            case TransactionType.INCOME:
+                balances[tx.source] = (balances[tx.source] || 0) + amountIn(tx, tx.source);
+                break;
+            case TransactionType.EXPENSE:
+                balances[tx.source] = (balances[tx.source] || 0) - amountIn(tx, tx.source);
+                break;
+            case TransactionType.TRANSFER:
+                if (tx.destination && tx.destination !== tx.source) {
+                    balances[tx.source] = (balances[tx.source] || 0) - amountIn(tx, tx.source);
+                    balances[tx.destination] = (balances[tx.destination] || 0) + amountIn(tx, tx.destination);
+                }
+                break;
         }
     });
 
-    return Object.keys(monthlySummary).map(month => ({
-        month: month.substring(5, 7), // "MM" for chart label
-        income: monthlySummary[month].income,
-        expense: monthlySummary[month].expense,
-    })).sort((a, b) => a.month.localeCompare(b.month));
+    return balances;
 };
 
-// Helper function to process raw transactions into daily expense data for the chart
-const processDailyData = (transactions: Transaction[], selectedMonth: string): DailyData[] => { // selectedMonth is "YYYY-MM"
-    const dailySummary: { [key: string]: number } = {};
+const getAccountColor = (accountId: string): string =>
+    accountId === TransactionSource.GENERAL ? 'text-green-400' : accountId === TransactionSource.PROVISION ? 'text-yellow-400' : 'text-blue-300';
+
+// Helper function to compare each category's spending in the period against its budget
+const processCategoryBudgets = (periodTransactions: Transaction[], budgets: { [category: string]: string }): CategoryBudgetStatus[] =>
+    Object.keys(budgets)
+        .map(category => {
+            const budget = parseFloat(budgets[category]) || 0;
+            const spent = periodTransactions
+                .filter(tx => tx.type === TransactionType.EXPENSE && tx.category === category)
+                .reduce((sum, tx) => sum + tx.amount, 0);
+            const progress = budget > 0 ? (spent / budget) * 100 : 0;
+            const threshold = BUDGET_THRESHOLDS.filter(t => progress >= t).pop() || 0;
+            return { category, budget, spent, progress, threshold };
+        })
+        .filter(status => status.budget > 0)
+        .sort((a, b) => b.progress - a.progress);
+
+// Helper function to group the selected period's expenses by category for the breakdown chart
+const processCategoryData = (transactions: Transaction[], period: BudgetPeriod): CategoryData[] => {
+    const categorySummary: { [key: string]: number } = {};
 
     transactions
-        .filter(tx => tx.date.startsWith(selectedMonth) && tx.type === TransactionType.EXPENSE)
+        .filter(tx => isInPeriod(tx.date, period) && tx.type === TransactionType.EXPENSE)
         .forEach(tx => {
-            const day = tx.date.substring(8, 10); // "DD"
-            if (!dailySummary[day]) {
-                dailySummary[day] = 0;
-            }
-            dailySummary[day] += tx.amount;
+            const category = tx.category || UNCATEGORIZED_LABEL;
+            categorySummary[category] = (categorySummary[category] || 0) + tx.amount;
         });
-    
-    return Object.keys(dailySummary).map(day => ({
-        day: day,
-        expense: dailySummary[day],
-    })).sort((a, b) => a.day.localeCompare(b.day));
+
+    return Object.keys(categorySummary).map(category => ({
+        category,
+        expense: categorySummary[category],
+    })).sort((a, b) => b.expense - a.expense);
+};
+
+// Blank state for the add/edit transaction form
+const createEmptyTxForm = () => ({
+    description: '',
+    amount: '',
+    currency: '', // Empty means the source account's currency
+    date: new Date().toISOString().split('T')[0],
+    type: TransactionType.EXPENSE,
+    source: TransactionSource.GENERAL as string,
+    destination: TransactionSource.PROVISION as string,
+    category: '',
+    tags: '',
+    goal: '', // Only kept for transactions that move money into or out of the provision account
+    debt: '', // Only kept for expenses (repaying a debt) and income (being repaid)
+});
+
+// Newest transactions first
+const sortByDateDesc = (transactions: Transaction[]): Transaction[] =>
+    [...transactions].sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime());
+
+// The saved profile to connect to on load, if the last session ended connected
+const getStartupProfile = (): ConnectionProfile | undefined => {
+    const activeId = getActiveProfileId();
+    return activeId ? loadProfiles().find(profile => profile.id === activeId) : undefined;
 };
 
+const getDefaultProfileName = (config: ConnectionConfig): string =>
+    config.mode === StorageMode.LOCAL ? 'Bộ nhớ cục bộ' : `Google Sheets ${config.spreadsheetId.substring(0, 8)}`;
+
 const App: React.FC = () => {
     // --- State management ---
-    const [gapiConfig, setGapiConfig] = useState<{ apiKey: string; clientId: string; spreadsheetId: string} | null>(null);
+    const [profiles, setProfiles] = useState<ConnectionProfile[]>(loadProfiles);
+    const [activeProfileId, setActiveProfile] = useState<string | null>(() => getStartupProfile()?.id || null);
+    const [profileError, setProfileError] = useState<string | null>(null);
+    const [connection, setConnection] = useState<ConnectionConfig | null>(() => getStartupProfile()?.connection || null);
+    const [store, setStore] = useState<DataStore | null>(null);
     const [isGapiScriptLoaded, setIsGapiScriptLoaded] = useState(false);
+    const authRef = useRef<GoogleAuth | null>(null);
     const [isSignedIn, setIsSignedIn] = useState(false);
-    const [isLoading, setIsLoading] = useState(false); // Only for data loading, not script init
+    const [isLoading, setIsLoading] = useState(() => !!getStartupProfile()); // Only for data loading, not script init
     const [isSaving, setIsSaving] = useState(false);
     const [error, setError] = useState<string | null>(null);
-    const [sheetIds, setSheetIds] = useState<{ [key:string]: number }>({});
+    const [schemaPlan, setSchemaPlan] = useState<SchemaPlan | null>(null);
+    const [schemaError, setSchemaError] = useState<string | null>(null);
+    const [isApplyingSchema, setIsApplyingSchema] = useState(false);
     
     const [transactions, setTransactions] = useState<Transaction[]>([]);
-    const [initialBalances, setInitialBalances] = useState({ general: '0', provision: '0' });
+    const [accountSettings, setAccountSettings] = useState<AccountSettings[]>(() => parseAccountSettings({}));
+    const [removedAccountIds, setRemovedAccountIds] = useState<string[]>([]);
     const [monthlyIncomeGoal, setMonthlyIncomeGoal] = useState('0');
-    const [lastRolloverMonth, setLastRolloverMonth] = useState('');
+    const [lastRolloverMonth, setLastRolloverMonth] = useState(''); // Last rollover before the ledger existed: "YYYY-MM" or a period key
+    const [periodSettings, setPeriodSettings] = useState<PeriodSettings>(DEFAULT_PERIOD_SETTINGS);
+    const [categories, setCategories] = useState<string[]>(DEFAULT_CATEGORIES);
+    const [newCategory, setNewCategory] = useState('');
+    const [categoryBudgets, setCategoryBudgets] = useState<{ [category: string]: string }>({});
+    const [budgetWarnings, setBudgetWarnings] = useState<string[]>([]);
+    const notifiedBudgetThresholdsRef = useRef<{ [key: string]: number }>({});
+    const [outboxEntries, setOutboxEntries] = useState<OutboxEntry[]>([]);
+    const [recurringTemplates, setRecurringTemplates] = useState<RecurringTemplate[]>([]);
+    const [baseCurrency, setBaseCurrency] = useState(DEFAULT_BASE_CURRENCY);
+    const [exchangeRates, setExchangeRates] = useState<ExchangeRate[]>([]);
+    const [rollovers, setRollovers] = useState<RolloverEntry[]>([]);
+    const [savingsGoals, setSavingsGoals] = useState<SavingsGoal[]>([]);
+    const [debts, setDebts] = useState<Debt[]>([]);
+    // Sheet rows that failed validation; they stay out of the totals until repaired
+    const [quarantinedRows, setQuarantinedRows] = useState<QuarantinedRow[]>([]);
+    const isSyncingRef = useRef(false);
+    // Changes pulled from other devices that the user has not dismissed yet
+    const [remoteChanges, setRemoteChanges] = useState<TransactionChanges | null>(null);
+    const [history, setHistory] = useState<CommandHistory>(EMPTY_HISTORY);
+    const [toast, setToast] = useState<{ id: number, message: string, action: 'undo' | 'redo' } | null>(null);
+    const isApplyingCommandRef = useRef(false);
     
     const [currentDate, setCurrentDate] = useState(new Date().toISOString().split('T')[0]);
-    const [newTxData, setNewTxData] = useState({
-        description: '',
-        amount: '',
-        date: new Date().toISOString().split('T')[0],
-        type: TransactionType.EXPENSE,
-        source: TransactionSource.GENERAL,
-        destination: TransactionSource.GENERAL,
-    });
+    const [newTxData, setNewTxData] = useState(createEmptyTxForm);
+    const [editingTx, setEditingTx] = useState<Transaction | null>(null);
+    const [view, setView] = useState<'dashboard' | 'history'>('dashboard');
     
     // --- Google Sheets API Logic ---
 
-    // Load GAPI script robustly, ensuring it only runs once.
+    // Load the gapi client and Google Identity Services once
     useEffect(() => {
-        const scriptId = 'google-api-script';
-        if (document.getElementById(scriptId) || window.gapi) {
-             if (window.gapi) {
-                window.gapi.load('client:auth2', () => {
-                    setIsGapiScriptLoaded(true);
-                });
+        loadGoogleLibraries()
+            .then(() => setIsGapiScriptLoaded(true))
+            .catch(err => {
+                console.error("Error loading Google libraries:", err);
+                setIsLoading(false);
+                setError("Không thể tải thư viện Google. Vui lòng kiểm tra kết nối mạng và thử tải lại trang.");
+            });
+    }, []);
+
+
+    const applyConfig = (configMap: ConfigValues) => {
+        setAccountSettings(parseAccountSettings(configMap));
+        setRemovedAccountIds([]);
+        setMonthlyIncomeGoal(configMap['MONTHLY_INCOME_GOAL'] || '0');
+        setLastRolloverMonth(configMap['LAST_ROLLOVER_MONTH'] || '');
+        setPeriodSettings(parsePeriodSettings(configMap['PERIOD_TYPE'], configMap['PERIOD_START_DAY'], configMap['PERIOD_ANCHOR_DATE']));
+        setBaseCurrency(configMap['BASE_CURRENCY'] || DEFAULT_BASE_CURRENCY);
+        const savedCategories = parseListValue(configMap['CATEGORIES']);
+        setCategories(savedCategories.length > 0 ? savedCategories : DEFAULT_CATEGORIES);
+        const budgets: { [category: string]: string } = {};
+        Object.keys(configMap)
+            .filter(key => key.startsWith(BUDGET_KEY_PREFIX) && configMap[key])
+            .forEach(key => { budgets[key.substring(BUDGET_KEY_PREFIX.length)] = configMap[key]; });
+        setCategoryBudgets(budgets);
+    };
+
+    const resetData = () => {
+        setStore(null);
+        setSchemaPlan(null);
+        setSchemaError(null);
+        setTransactions([]);
+        setAccountSettings(parseAccountSettings({}));
+        setRemovedAccountIds([]);
+        setMonthlyIncomeGoal('0');
+        setLastRolloverMonth('');
+        setPeriodSettings(DEFAULT_PERIOD_SETTINGS);
+        setCategories(DEFAULT_CATEGORIES);
+        setCategoryBudgets({});
+        setBudgetWarnings([]);
+        setOutboxEntries([]);
+        setRecurringTemplates([]);
+        setBaseCurrency(DEFAULT_BASE_CURRENCY);
+        setExchangeRates([]);
+        setRollovers([]);
+        setSavingsGoals([]);
+        setDebts([]);
+        setQuarantinedRows([]);
+        setRemoteChanges(null);
+        // Commands hold on to the store they were made against
+        setHistory(EMPTY_HISTORY);
+        setToast(null);
+    };
+
+    const loadStoreData = async (dataStore: DataStore) => {
+        try {
+            applyConfig(await dataStore.config.load());
+        } catch (err) {
+            console.error("Error loading config", err);
+            // Don't throw, just use defaults
+        }
+        const { transactions: loadedTransactions, quarantined } = await dataStore.transactions.load();
+        setQuarantinedRows(quarantined);
+        const entries = dataStore.outbox ? await dataStore.outbox.list() : [];
+        setOutboxEntries(entries);
+        setTransactions(sortByDateDesc(applyOutboxEntries(loadedTransactions, entries)));
+
+        let templates: RecurringTemplate[] = [];
+        try {
+            templates = await dataStore.recurring.list();
+        } catch (err) {
+            console.error("Error loading recurring templates", err);
+        }
+        setRecurringTemplates(templates);
+
+        try {
+            setExchangeRates(await dataStore.rates.list());
+        } catch (err) {
+            console.error("Error loading exchange rates", err);
+        }
+
+        try {
+            setRollovers(dedupeRollovers(await dataStore.rollovers.list()));
+        } catch (err) {
+            console.error("Error loading rollovers", err);
+        }
+
+        try {
+            setSavingsGoals(await dataStore.goals.list());
+        } catch (err) {
+            console.error("Error loading savings goals", err);
+        }
+
+        try {
+            setDebts(await dataStore.debts.list());
+        } catch (err) {
+            console.error("Error loading debts", err);
+        }
+        await materializeRecurring(dataStore, templates);
+    };
+
+    // Writes a new transaction through the outbox when the backend has one, directly otherwise
+    const persistNewTransaction = async (dataStore: DataStore, tx: Transaction): Promise<Transaction> => {
+        if (dataStore.outbox) {
+            // Queue first so the entry survives a failed request or a closed tab
+            await dataStore.outbox.enqueue(OutboxOperation.ADD, tx);
+            return tx;
+        }
+        return dataStore.transactions.add(tx);
+    };
+
+    // Imports are written in one batch request. Only when the backend is unreachable do they go
+    // through the outbox, which replays them one by one once the connection is back.
+    const persistNewTransactions = async (dataStore: DataStore, txs: Transaction[]): Promise<Transaction[]> => {
+        try {
+            return await dataStore.transactions.addMany(txs);
+        } catch (err) {
+            if (!dataStore.outbox || !isTransientError(err)) throw err;
+            for (const tx of txs) {
+                await dataStore.outbox.enqueue(OutboxOperation.ADD, tx);
             }
-            return;
+            return txs;
         }
-        const script = document.createElement('script');
-        script.id = scriptId;
-        script.src = 'https://apis.google.com/js/api.js';
-        script.onload = () => {
-             window.gapi.load('client:auth2', () => {
-                setIsGapiScriptLoaded(true);
+    };
+
+    // Turns every occurrence that is due by today into a transaction. Occurrence ids are derived from
+    // the template and the date, and they are checked against a fresh copy of the data while holding a
+    // cross-tab lock, so reloads and several open tabs never create the same occurrence twice.
+    const materializeRecurring = async (dataStore: DataStore, templates: RecurringTemplate[]) => {
+        // The real date, not the "current date" setting: occurrences must not be created ahead of time
+        const today = toDateKey(new Date());
+        if (!templates.some(template => getDueOccurrences(template, today).length > 0)) return;
+
+        try {
+            const { created, updatedTemplates } = await runExclusive('recurring-materialize', async () => {
+                const existingIds = new Set((await dataStore.transactions.list()).map(tx => tx.id));
+                if (dataStore.outbox) {
+                    (await dataStore.outbox.list()).forEach(entry => existingIds.add(entry.transaction.id));
+                }
+
+                const created: Transaction[] = [];
+                const updatedTemplates: RecurringTemplate[] = [];
+                for (const template of templates) {
+                    const dueDates = getDueOccurrences(template, today);
+                    if (dueDates.length === 0) continue;
+                    for (const date of dueDates) {
+                        const occurrence = createOccurrence(template, date);
+                        if (existingIds.has(occurrence.id)) continue;
+                        created.push(await persistNewTransaction(dataStore, occurrence));
+                        existingIds.add(occurrence.id);
+                    }
+                    const updated = { ...template, lastOccurrence: dueDates[dueDates.length - 1] };
+                    await dataStore.recurring.save(updated);
+                    updatedTemplates.push(updated);
+                }
+                return { created, updatedTemplates };
             });
+
+            const updatedById = new Map(updatedTemplates.map(template => [template.id, template]));
+            setRecurringTemplates(prev => prev.map(template => updatedById.get(template.id) || template));
+            if (created.length > 0) {
+                setTransactions(prev => sortByDateDesc([...prev.filter(tx => !created.some(c => c.id === tx.id)), ...created]));
+            }
+            if (dataStore.outbox) {
+                setOutboxEntries(await dataStore.outbox.list());
+                syncOutbox(dataStore);
+            }
+        } catch (err: any) {
+            console.error("Error creating recurring transactions:", err);
+            setError(`Không thể tạo giao dịch định kỳ. Lỗi: ${getErrorMessage(err)}`);
+        }
+    };
+
+    // Replays queued mutations against the backend. Safe to call repeatedly: overlapping calls are ignored.
+    const syncOutbox = useCallback(async (dataStore: DataStore) => {
+        if (!dataStore.outbox || isSyncingRef.current) return;
+        isSyncingRef.current = true;
+        try {
+            const result = await replayOutbox(dataStore.outbox, dataStore.transactions);
+            if (result.saved.length > 0) {
+                const savedById = new Map(result.saved.map(tx => [tx.id, tx]));
+                setTransactions(prev => prev.map(tx => savedById.get(tx.id) || tx));
+            }
+            if (result.conflicts.length > 0) {
+                setError(`Có ${result.conflicts.length} thay đổi không thể đồng bộ lên Google Sheets. Vui lòng xem mục "Xung đột đồng bộ".`);
+            }
+            setOutboxEntries(await dataStore.outbox.list());
+        } catch (err) {
+            console.error("Error syncing outbox:", err);
+        } finally {
+            isSyncingRef.current = false;
+        }
+    }, []);
+
+    // The list as last rendered, so a poll can tell whether a local write landed while it was loading
+    const transactionsRef = useRef(transactions);
+    transactionsRef.current = transactions;
+
+    // Pulls in edits made on other devices. Own writes are already in state and queued ones are
+    // overlaid from the outbox, so whatever still differs came from elsewhere. The sync flag is held
+    // so the outbox is not replayed mid-read, which would make a just-sent edit look reverted.
+    const pullRemoteChanges = useCallback(async (dataStore: DataStore) => {
+        if (isSyncingRef.current || document.hidden) return;
+        isSyncingRef.current = true;
+        const before = transactionsRef.current;
+        try {
+            const { transactions: remote, quarantined } = await dataStore.transactions.load();
+            const entries = dataStore.outbox ? await dataStore.outbox.list() : [];
+            // A local write landed meanwhile and may be missing from this read; the next poll catches up
+            if (transactionsRef.current !== before) return;
+            const next = sortByDateDesc(applyOutboxEntries(remote, entries));
+            const changes = diffTransactions(before, next);
+            setQuarantinedRows(prev => JSON.stringify(prev) === JSON.stringify(quarantined) ? prev : quarantined);
+            if (hasChanges(changes)) {
+                setTransactions(prev => prev === before ? next : prev);
+                setRemoteChanges(prev => prev ? mergeChanges(prev, changes) : changes);
+            }
+        } catch (err) {
+            console.error("Error pulling remote changes:", err);
+        } finally {
+            isSyncingRef.current = false;
+        }
+        // Doubles as a periodic retry for anything still queued
+        if (dataStore.outbox) syncOutbox(dataStore);
+    }, [syncOutbox]);
+
+    // Flush the outbox once connected and every time the browser comes back online
+    useEffect(() => {
+        if (!store?.outbox) return;
+        syncOutbox(store);
+        const handleOnline = () => syncOutbox(store);
+        window.addEventListener('online', handleOnline);
+        return () => window.removeEventListener('online', handleOnline);
+    }, [store, syncOutbox]);
+
+    // A shared spreadsheet is polled while the tab is visible and checked again as soon as it is shown
+    useEffect(() => {
+        if (!store || isLoading || connection?.mode !== StorageMode.SHEETS) return;
+        const timer = window.setInterval(() => pullRemoteChanges(store), REMOTE_POLL_INTERVAL_MS);
+        const handleVisibilityChange = () => {
+            if (!document.hidden) pullRemoteChanges(store);
         };
-        script.onerror = () => {
-            setError("Không thể tải thư viện Google. Vui lòng kiểm tra kết nối mạng và thử tải lại trang.");
+        document.addEventListener('visibilitychange', handleVisibilityChange);
+        return () => {
+            window.clearInterval(timer);
+            document.removeEventListener('visibilitychange', handleVisibilityChange);
         };
-        script.async = true;
-        script.defer = true;
-        document.body.appendChild(script);
-    }, []); // Empty dependency array ensures this effect runs only once.
-
+    }, [store, isLoading, connection, pullRemoteChanges]);
 
-    // Effect to initialize GAPI client and handle auth flow once config is set.
+    // Effect to open the selected storage backend and handle the auth flow once config is set.
     useEffect(() => {
-        if (!gapiConfig || !isGapiScriptLoaded) {
+        if (!connection) {
             return;
         }
 
-        // Define data loading functions here so they close over the correct gapiConfig
-        const loadConfigForEffect = async () => {
-            const range = `${CONFIG_SHEET_NAME}!A1:B4`;
-            try {
-// FIX: Use window.gapi to access the Google API client, as `gapi` is not a global variable in the module scope.
-                const response = await window.gapi.client.sheets.spreadsheets.values.get({
-                    spreadsheetId: gapiConfig.spreadsheetId,
-                    range: range,
-                });
-                const values = response.result.values || [];
-                const configMap: { [key: string]: string } = {};
-                values.forEach((row: string[]) => { if (row[0]) configMap[row[0]] = row[1]; });
-                setInitialBalances({ general: configMap['INITIAL_GENERAL_BALANCE'] || '0', provision: configMap['INITIAL_PROVISION_BALANCE'] || '0' });
-                setMonthlyIncomeGoal(configMap['MONTHLY_INCOME_GOAL'] || '0');
-                setLastRolloverMonth(configMap['LAST_ROLLOVER_MONTH'] || '');
-            } catch (err) {
-                console.error("Error loading config", err);
-                // Don't throw, just use defaults
-            }
-        };
+        if (connection.mode === StorageMode.LOCAL) {
+            const openLocal = async () => {
+                setIsLoading(true);
+                setError(null);
+                try {
+                    const dataStore = await openLocalStore();
+                    setStore(dataStore);
+                    setIsSignedIn(true);
+                    await loadStoreData(dataStore);
+                } catch (err: any) {
+                    console.error("Error opening local storage:", err);
+                    setError(`Không thể mở bộ nhớ cục bộ của trình duyệt. Lỗi: ${getErrorMessage(err)}`);
+                } finally {
+                    setIsLoading(false);
+                }
+            };
+            openLocal();
+            return;
+        }
 
-        const loadTransactionsForEffect = async () => {
-            const range = `${TRANSACTIONS_SHEET_NAME}!A:G`;
-            try {
-// FIX: Use window.gapi to access the Google API client, as `gapi` is not a global variable in the module scope.
-                const response = await window.gapi.client.sheets.spreadsheets.values.get({ spreadsheetId: gapiConfig.spreadsheetId, range: range });
-                const values = response.result.values || [];
-                const loadedTransactions = values.map((row: any[], index: number): Transaction => ({
-                    id: row[0], date: row[1], description: row[2], amount: parseFloat(row[3]) || 0, type: row[4] as TransactionType,
-                    source: row[5] as TransactionSource, destination: row[6] as TransactionSource | undefined, rowIndex: index + 1,
-                })).filter(tx => tx.id);
-                setTransactions(loadedTransactions.sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime()));
-            } catch (err) {
-                console.error("Error loading transactions", err);
-                throw new Error("Failed to load transactions.");
-            }
-        };
+        if (!isGapiScriptLoaded) {
+            return;
+        }
 
         // Define the listener function here to ensure it uses the correct scope
-        const statusUpdateListener = async (isUserSignedIn: boolean) => {
+        const statusUpdateListener = async (isUserSignedIn: boolean, expired = false) => {
             setIsSignedIn(isUserSignedIn);
             if (isUserSignedIn) {
                 setIsLoading(true);
                 setError(null);
                 try {
-// FIX: Use window.gapi to access the Google API client, as `gapi` is not a global variable in the module scope.
-                    const metaResponse = await window.gapi.client.sheets.spreadsheets.get({ spreadsheetId: gapiConfig.spreadsheetId });
-                    const sheets: { [key:string]: number } = {};
-                    metaResponse.result.sheets.forEach((s: any) => { sheets[s.properties.title] = s.properties.sheetId; });
-                    setSheetIds(sheets);
-
-                    await loadConfigForEffect();
-                    await loadTransactionsForEffect();
+                    // Missing sheets and pending migrations wait for the user to confirm them
+                    const plan = await inspectSpreadsheet(connection.spreadsheetId);
+                    if (needsConfirmation(plan)) {
+                        setSchemaPlan(plan);
+                        return;
+                    }
+                    const dataStore = await connectSheetsStore(connection.spreadsheetId);
+                    if (plan.needsVersionStamp) await applySchemaPlan(connection.spreadsheetId, plan, dataStore.config);
+                    setStore(dataStore);
+                    await loadStoreData(dataStore);
                 } catch (err: any) {
                     console.error("Error loading data from Google Sheets:", err);
                     setError(`Không thể tải dữ liệu. Lỗi: ${err.result?.error?.message || 'Unknown error'}. Vui lòng kiểm tra lại ID Bảng tính và quyền truy cập.`);
@@ -187,27 +561,25 @@ const App: React.FC = () => {
                     setIsLoading(false);
                 }
             } else {
-                setTransactions([]);
-                setInitialBalances({ general: '0', provision: '0' });
-                setMonthlyIncomeGoal('0');
-                setLastRolloverMonth('');
+                resetData();
                 setIsLoading(false);
+                if (expired) setError("Phiên đăng nhập Google đã hết hạn. Vui lòng đăng nhập lại.");
             }
         };
         
+        let auth: GoogleAuth | null = null;
         const initClient = async () => {
             try {
 // FIX: Use window.gapi to access the Google API client, as `gapi` is not a global variable in the module scope.
                 await window.gapi.client.init({
-                    apiKey: gapiConfig.apiKey,
-                    clientId: gapiConfig.clientId,
-                    scope: SCOPES,
+                    apiKey: connection.apiKey,
                     discoveryDocs: DISCOVERY_DOCS,
                 });
-// FIX: Use window.gapi to access the Google API client, as `gapi` is not a global variable in the module scope.
-                const authInstance = window.gapi.auth2.getAuthInstance();
-                authInstance.isSignedIn.listen(statusUpdateListener);
-                await statusUpdateListener(authInstance.isSignedIn.get());
+                auth = createGoogleAuth(connection.clientId, statusUpdateListener);
+                authRef.current = auth;
+                // Sheets requests rejected because the token expired are retried after a silent refresh
+                setAccessTokenRefresher(auth.refresh);
+                await statusUpdateListener(auth.isSignedIn());
             } catch (err: any) {
                  let errorMessage = 'Lỗi không xác định';
                  if (err.details) { errorMessage = err.details; } 
@@ -221,180 +593,735 @@ const App: React.FC = () => {
 
         initClient();
 
-    }, [gapiConfig, isGapiScriptLoaded]);
+        return () => {
+            auth?.dispose();
+            authRef.current = null;
+            setAccessTokenRefresher(null);
+        };
+    }, [connection, isGapiScriptLoaded]);
+
 
+    // Saved connections are a convenience: failing to store them never blocks the connection itself
+    const persistProfiles = (write: () => void) => {
+        try {
+            write();
+        } catch (err: any) {
+            console.error("Error saving connection profiles:", err);
+            setProfileError(`Không thể lưu kết nối trong trình duyệt này, lần sau có thể phải nhập lại. Lỗi: ${getErrorMessage(err)}`);
+        }
+    };
 
-    const handleConnect = (config: { apiKey: string, clientId: string, spreadsheetId: string }) => {
+    const openProfile = (profile: ConnectionProfile) => {
+        const used = { ...profile, lastUsedAt: new Date().toISOString() };
+        setProfileError(null);
+        persistProfiles(() => {
+            setProfiles(saveProfile(used));
+            setActiveProfileId(used.id);
+        });
+        setActiveProfile(used.id);
+        // Drop the previous connection's data before the effect opens the new one
+        resetData();
+        setIsSignedIn(false);
+        setError(null);
         setIsLoading(true); // Show loader immediately while the effect runs
-        setGapiConfig(config);
+        setConnection(used.connection);
+    };
+
+    const handleConnect = (config: ConnectionConfig, name: string) => {
+        const existing = findMatchingProfile(profiles, config);
+        openProfile({
+            id: existing?.id || `profile-${new Date().getTime()}`,
+            name: name || existing?.name || getDefaultProfileName(config),
+            connection: config,
+        });
+    };
+
+    const handleApplySchema = async () => {
+        if (!schemaPlan || connection?.mode !== StorageMode.SHEETS) return;
+        setIsApplyingSchema(true);
+        setSchemaError(null);
+        try {
+            await applySchemaPlan(connection.spreadsheetId, schemaPlan, (await connectSheetsStore(connection.spreadsheetId)).config);
+            // Reconnect so the repositories see the sheets that were just created
+            const dataStore = await connectSheetsStore(connection.spreadsheetId);
+            setSchemaPlan(null);
+            setStore(dataStore);
+            await loadStoreData(dataStore);
+        } catch (err: any) {
+            console.error("Error updating spreadsheet layout:", err);
+            setSchemaError(`Không thể cập nhật bảng tính. Lỗi: ${getErrorMessage(err)}`);
+        } finally {
+            setIsApplyingSchema(false);
+        }
+    };
+
+    // Back to the connection screen; the profile stays saved but is no longer opened on load
+    const handleLeaveConnection = () => {
+        persistProfiles(() => setActiveProfileId(null));
+        setActiveProfile(null);
+        resetData();
+        setIsSignedIn(false);
+        setError(null);
+        setConnection(null);
+    };
+
+    const handleDeleteProfile = (profile: ConnectionProfile) => {
+        persistProfiles(() => setProfiles(deleteProfile(profile.id)));
+        if (profile.id === activeProfileId) handleLeaveConnection();
+    };
+
+    const handleSwitchProfile = (profileId: string) => {
+        const profile = profiles.find(p => p.id === profileId);
+        if (profile) openProfile(profile);
+        else handleLeaveConnection();
     };
     
     const handleSignIn = () => {
-// FIX: Use window.gapi to access the Google API client, as `gapi` is not a global variable in the module scope.
-        const authInstance = window.gapi.auth2.getAuthInstance();
-        if (authInstance) {
-            authInstance.signIn();
-        } else {
+        if (!authRef.current) {
             setError("Lỗi: Dịch vụ xác thực chưa sẵn sàng. Vui lòng thử lại.");
+            return;
+        }
+        setError(null);
+        authRef.current.signIn().catch((err: any) => {
+            console.error("Error signing in:", err);
+            setError(`Không thể đăng nhập. Lỗi: ${err?.error_description || err?.message || err?.type || err?.error || 'Unknown error'}`);
+        });
+    };
+
+    const handleSignOut = () => {
+        if (connection?.mode === StorageMode.LOCAL) {
+            // Nothing to sign out of: go back to the connection screen
+            handleLeaveConnection();
+            return;
+        }
+        authRef.current?.signOut().catch((err: any) => console.error("Error revoking token:", err));
+    };
+
+    // Validates the add/edit form and turns it into a transaction, or returns null after alerting the user
+    const buildTransactionFromForm = (id: string): Transaction | null => {
+        const amount = parseFloat(newTxData.amount);
+        if (!newTxData.description.trim() || isNaN(amount) || amount <= 0) {
+            alert("Vui lòng điền đầy đủ và chính xác các thông tin.");
+            return null;
+        }
+
+        if (newTxData.type === TransactionType.TRANSFER && newTxData.source === newTxData.destination) {
+            alert("Nguồn và đích không được giống nhau khi thực hiện chuyển khoản.");
+            return null;
+        }
+        
+        return {
+            id,
+            date: new Date(newTxData.date).toISOString(),
+            description: newTxData.description.trim(),
+            amount: amount,
+            // Stored explicitly so the amount keeps its meaning if the account's currency changes later
+            currency: newTxData.currency || accountCurrencies[newTxData.source] || baseCurrency,
+            type: newTxData.type,
+            source: newTxData.source,
+            destination: newTxData.type === TransactionType.TRANSFER ? newTxData.destination : undefined,
+            category: newTxData.type !== TransactionType.TRANSFER ? newTxData.category || undefined : undefined,
+            tags: parseListValue(newTxData.tags),
+            goal: getProvisionDirection(newTxData) !== 0 ? newTxData.goal || undefined : undefined,
+            debt: newTxData.type !== TransactionType.TRANSFER ? newTxData.debt || undefined : undefined,
+        };
+    };
+
+    // --- Transaction writes shared by the form handlers and by undo/redo. Commands run them long
+    // after the render that created them, so they read the outbox fresh instead of from state.
+
+    const insertTransaction = async (dataStore: DataStore, tx: Transaction): Promise<void> => {
+        const saved = await persistNewTransaction(dataStore, tx);
+        setTransactions(prev => sortByDateDesc([...prev, saved]));
+        if (dataStore.outbox) {
+            setOutboxEntries(await dataStore.outbox.list());
+            syncOutbox(dataStore);
+        }
+    };
+
+    // base is the version the change was made from, see OutboxEntry.base
+    const replaceTransaction = async (dataStore: DataStore, updated: Transaction, base: Transaction): Promise<void> => {
+        if (dataStore.outbox) {
+            const queued = (await dataStore.outbox.list()).find(entry => entry.status === OutboxStatus.PENDING
+                && entry.operation !== OutboxOperation.REMOVE && entry.transaction.id === updated.id);
+            if (queued) {
+                // Still waiting to be sent: fold the edit into the queued write, keeping its base
+                await dataStore.outbox.update({ ...queued, transaction: updated });
+            } else {
+                await dataStore.outbox.enqueue(OutboxOperation.UPDATE, updated, base);
+            }
+            setTransactions(prev => sortByDateDesc(prev.map(tx => tx.id === updated.id ? updated : tx)));
+            setOutboxEntries(await dataStore.outbox.list());
+            syncOutbox(dataStore);
+        } else {
+            const saved = await dataStore.transactions.update(updated, base);
+            setTransactions(prev => sortByDateDesc(prev.map(tx => tx.id === saved.id ? saved : tx)));
+        }
+    };
+
+    // Rows that reach the sheet are removed with one batch request; rows with queued changes go
+    // through the outbox so they are removed after those changes replay.
+    const removeTransactions = async (dataStore: DataStore, toDelete: Transaction[]): Promise<void> => {
+        const ids = toDelete.map(tx => tx.id);
+        let direct = toDelete;
+        if (dataStore.outbox) {
+            const queued = (await dataStore.outbox.list()).filter(entry => ids.includes(entry.transaction.id));
+            const queuedInserts = queued.filter(isQueuedInsert);
+            for (const entry of queuedInserts) {
+                // Never reached the sheet: dropping the queued insert is enough
+                if (entry.id !== undefined) await dataStore.outbox.remove(entry.id);
+            }
+            const queuedIds = new Set(queued.map(entry => entry.transaction.id));
+            for (const tx of toDelete.filter(tx => queuedIds.has(tx.id) && !queuedInserts.some(entry => entry.transaction.id === tx.id))) {
+                await dataStore.outbox.enqueue(OutboxOperation.REMOVE, tx);
+            }
+            direct = toDelete.filter(tx => !queuedIds.has(tx.id));
+        }
+
+        try {
+            await dataStore.transactions.removeMany(direct);
+        } catch (err) {
+            if (!dataStore.outbox || !isTransientError(err)) throw err;
+            for (const tx of direct) {
+                await dataStore.outbox.enqueue(OutboxOperation.REMOVE, tx);
+            }
+        }
+
+        setTransactions(prev => prev.filter(tx => !ids.includes(tx.id)));
+        if (dataStore.outbox) {
+            setOutboxEntries(await dataStore.outbox.list());
+            syncOutbox(dataStore);
+        }
+    };
+
+    // Brings removed transactions back with their ids and dates. The topmost row goes first, so the
+    // rows above each later one are already back in place when it is inserted.
+    const restoreTransactions = async (dataStore: DataStore, txs: Transaction[]): Promise<void> => {
+        const ordered = [...txs].sort((a, b) => (a.rowIndex ?? Number.MAX_SAFE_INTEGER) - (b.rowIndex ?? Number.MAX_SAFE_INTEGER));
+        const restored: Transaction[] = [];
+        for (const tx of ordered) {
+            if (dataStore.outbox) {
+                await dataStore.outbox.enqueue(OutboxOperation.RESTORE, tx);
+                restored.push(tx);
+            } else {
+                restored.push(await dataStore.transactions.restore(tx));
+            }
+        }
+        const ids = new Set(restored.map(tx => tx.id));
+        setTransactions(prev => sortByDateDesc([...prev.filter(tx => !ids.has(tx.id)), ...restored]));
+        if (dataStore.outbox) {
+            setOutboxEntries(await dataStore.outbox.list());
+            syncOutbox(dataStore);
+        }
+    };
+
+    // The latest known version of a transaction, e.g. with the row and timestamp it got once saved
+    const currentVersion = (tx: Transaction): Transaction => transactionsRef.current.find(t => t.id === tx.id) || tx;
+
+    const pushCommand = (command: Command) => {
+        setHistory(prev => recordCommand(prev, command));
+        setToast({ id: Date.now(), message: command.label, action: 'undo' });
+    };
+
+    // Removing a transaction the command had added, or putting back one it had removed, both need
+    // the row as it was last seen, so the command keeps track of it between undo and redo
+    const createRemovalCommand = (dataStore: DataStore, label: string, removed: Transaction[]): Command => {
+        let latest = removed;
+        return {
+            label,
+            undo: () => restoreTransactions(dataStore, latest),
+            redo: async () => {
+                latest = latest.map(currentVersion);
+                await removeTransactions(dataStore, latest);
+            },
+        };
+    };
+
+    const handleAddTransaction = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!store) return;
+        
+        const newTransaction = buildTransactionFromForm(`txn-${new Date().getTime()}`);
+        if (!newTransaction) return;
+        
+        setIsSaving(true);
+        try {
+            await insertTransaction(store, newTransaction);
+            const dataStore = store;
+            let latest = newTransaction;
+            pushCommand({
+                label: `Đã thêm "${newTransaction.description}"`,
+                undo: async () => {
+                    latest = currentVersion(latest);
+                    await removeTransactions(dataStore, [latest]);
+                },
+                redo: () => restoreTransactions(dataStore, [latest]),
+            });
+            
+            // Reset form
+            setNewTxData(createEmptyTxForm());
+        } catch(err: any) {
+             console.error("Error adding transaction:", err);
+             setError(`Không thể thêm giao dịch. Lỗi: ${getErrorMessage(err)}`);
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    const handleImportTransactions = async (imported: Transaction[]): Promise<boolean> => {
+        if (!store) return false;
+        setIsSaving(true);
+        try {
+            const saved = await persistNewTransactions(store, imported);
+            setTransactions(prev => sortByDateDesc([...prev, ...saved]));
+            if (store.outbox) setOutboxEntries(await store.outbox.list());
+            return true;
+        } catch (err: any) {
+            console.error("Error importing transactions:", err);
+            setError(`Không thể nhập giao dịch. Lỗi: ${getErrorMessage(err)}`);
+            return false;
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    // Config is read fresh from the store so the backup also has keys this version does not use
+    const handleCreateBackup = async (): Promise<BackupBundle | null> => {
+        if (!store) return null;
+        try {
+            return createBackupBundle(transactions, await store.config.load(), recurringTemplates, exchangeRates, rollovers, savingsGoals, debts);
+        } catch (err: any) {
+            console.error("Error creating backup:", err);
+            setError(`Không thể tạo bản sao lưu. Lỗi: ${getErrorMessage(err)}`);
+            return null;
+        }
+    };
+
+    // Restores on top of the current data: transactions that already exist are left alone,
+    // config keys and records are overwritten with the values from the backup. The small record
+    // sheets and the config go first and the transactions last, so transactions never land without
+    // the accounts, rates and goals they refer to.
+    const handleRestoreBackup = async (bundle: BackupBundle): Promise<boolean> => {
+        if (!store) return false;
+        const dataStore = store;
+        const existingIds = new Set(transactions.map(tx => tx.id));
+        const missing = bundle.transactions.filter(tx => !existingIds.has(tx.id));
+        const steps: { label: string, run: () => Promise<unknown> }[] = [
+            { label: 'cấu hình', run: () => dataStore.config.save(getRestorableConfig(bundle.config)) },
+            { label: 'giao dịch định kỳ', run: async () => { for (const template of bundle.recurring) await dataStore.recurring.save(template); } },
+            { label: 'tỷ giá', run: async () => { for (const rate of bundle.rates) await dataStore.rates.save(rate); } },
+            { label: 'quyết toán kỳ', run: async () => { for (const entry of bundle.rollovers) await dataStore.rollovers.save(entry); } },
+            { label: 'mục tiêu tiết kiệm', run: async () => { for (const goal of bundle.goals) await dataStore.goals.save(goal); } },
+            { label: 'khoản vay', run: async () => { for (const debt of bundle.debts) await dataStore.debts.save(debt); } },
+            { label: 'giao dịch', run: async () => { if (missing.length > 0) await persistNewTransactions(dataStore, missing); } },
+        ];
+
+        setIsSaving(true);
+        const written: string[] = [];
+        try {
+            for (const step of steps) {
+                try {
+                    await step.run();
+                } catch (err) {
+                    const done = written.length > 0 ? `Đã ghi: ${written.join(', ')}.` : 'Chưa ghi phần nào.';
+                    throw new Error(`Lỗi khi ghi ${step.label}. ${done} ${getErrorMessage(err)}`);
+                }
+                written.push(step.label);
+            }
+            await loadStoreData(dataStore);
+            return true;
+        } catch (err: any) {
+            console.error("Error restoring backup:", err);
+            setError(`Không thể khôi phục bản sao lưu. Lỗi: ${getErrorMessage(err)}`);
+            // Show whatever did get written
+            if (written.length > 0) await loadStoreData(dataStore).catch(loadErr => console.error("Error reloading data:", loadErr));
+            return false;
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    const handleStartEdit = (tx: Transaction) => {
+        setEditingTx(tx);
+        setNewTxData({
+            description: tx.description,
+            amount: tx.amount.toString(),
+            currency: tx.currency || '',
+            date: tx.date.split('T')[0],
+            type: tx.type,
+            source: tx.source,
+            destination: tx.destination || TransactionSource.PROVISION,
+            category: tx.category || '',
+            tags: formatListValue(tx.tags),
+            goal: tx.goal || '',
+            debt: tx.debt || '',
+        });
+    };
+
+    const handleCancelEdit = () => {
+        setEditingTx(null);
+        setNewTxData(createEmptyTxForm());
+    };
+
+    const handleUpdateTransaction = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!store || !editingTx) return;
+
+        const built = buildTransactionFromForm(editingTx.id);
+        if (!built) return;
+        const updatedTransaction: Transaction = { ...built, rowIndex: editingTx.rowIndex };
+
+        setIsSaving(true);
+        try {
+            await replaceTransaction(store, updatedTransaction, editingTx);
+            const dataStore = store;
+            const before = editingTx;
+            pushCommand({
+                label: `Đã sửa "${updatedTransaction.description}"`,
+                undo: () => replaceTransaction(dataStore, before, currentVersion(updatedTransaction)),
+                redo: () => replaceTransaction(dataStore, updatedTransaction, currentVersion(updatedTransaction)),
+            });
+
+            setEditingTx(null);
+            setNewTxData(createEmptyTxForm());
+        } catch (err: any) {
+            const remote = getConflictRemote(err);
+            if (remote) {
+                // Show the other device's version and keep the form: saving again overwrites it deliberately
+                setTransactions(prev => sortByDateDesc(prev.map(tx => tx.id === remote.id ? remote : tx)));
+                setEditingTx(remote);
+                setError("Giao dịch vừa được sửa trên thiết bị khác. Bản mới đã được tải về; nhấn lưu lần nữa để ghi đè bằng nội dung của bạn.");
+                return;
+            }
+            console.error("Error updating transaction:", err);
+            setError(`Không thể cập nhật giao dịch. Lỗi: ${getErrorMessage(err)}`);
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    // No confirmation: the toast offers to undo the deletion instead
+    const handleDeleteTransaction = async (txIdToDelete: string) => {
+        if (!store) return;
+
+        const txToDelete = transactions.find(tx => tx.id === txIdToDelete);
+        if (!txToDelete) return;
+        
+        setIsSaving(true);
+        try {
+            await removeTransactions(store, [txToDelete]);
+            pushCommand(createRemovalCommand(store, `Đã xóa "${txToDelete.description}"`, [txToDelete]));
+        } catch (err: any) {
+            console.error("Error deleting transaction:", err);
+            setError(`Không thể xóa giao dịch. Lỗi: ${getErrorMessage(err)}`);
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    // Bulk delete from the history view
+    const handleDeleteTransactions = async (ids: string[]): Promise<boolean> => {
+        if (!store) return false;
+        const toDelete = transactions.filter(tx => ids.includes(tx.id));
+        if (toDelete.length === 0) return true;
+
+        setIsSaving(true);
+        try {
+            await removeTransactions(store, toDelete);
+            pushCommand(createRemovalCommand(store, `Đã xóa ${toDelete.length} giao dịch`, toDelete));
+            return true;
+        } catch (err: any) {
+            console.error("Error deleting transactions:", err);
+            setError(`Không thể xóa các giao dịch đã chọn. Lỗi: ${getErrorMessage(err)}`);
+            return false;
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    // Commands run one at a time; a second Ctrl+Z while the first is still saving is ignored
+    const handleUndo = useCallback(async () => {
+        const command = history.past[history.past.length - 1];
+        if (!command || isApplyingCommandRef.current) return;
+        isApplyingCommandRef.current = true;
+        setIsSaving(true);
+        try {
+            await command.undo();
+            setHistory(prev => markUndone(prev, command));
+            setToast({ id: Date.now(), message: `Đã hoàn tác: ${command.label}`, action: 'redo' });
+        } catch (err: any) {
+            console.error("Error undoing action:", err);
+            setError(`Không thể hoàn tác (${command.label}). Lỗi: ${getErrorMessage(err)}`);
+        } finally {
+            isApplyingCommandRef.current = false;
+            setIsSaving(false);
+        }
+    }, [history]);
+
+    const handleRedo = useCallback(async () => {
+        const command = history.future[0];
+        if (!command || isApplyingCommandRef.current) return;
+        isApplyingCommandRef.current = true;
+        setIsSaving(true);
+        try {
+            await command.redo();
+            setHistory(prev => markRedone(prev, command));
+            setToast({ id: Date.now(), message: command.label, action: 'undo' });
+        } catch (err: any) {
+            console.error("Error redoing action:", err);
+            setError(`Không thể làm lại (${command.label}). Lỗi: ${getErrorMessage(err)}`);
+        } finally {
+            isApplyingCommandRef.current = false;
+            setIsSaving(false);
+        }
+    }, [history]);
+
+    const dismissToast = useCallback(() => setToast(null), []);
+
+    // Ctrl+Z undoes, Ctrl+Shift+Z or Ctrl+Y redoes (Cmd on macOS)
+    useEffect(() => {
+        const handleKeyDown = (e: KeyboardEvent) => {
+            if (!(e.ctrlKey || e.metaKey) || e.altKey || isTextEntryTarget(e.target)) return;
+            const key = e.key.toLowerCase();
+            if (key === 'z' && !e.shiftKey) {
+                e.preventDefault();
+                handleUndo();
+            } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+                e.preventDefault();
+                handleRedo();
+            }
+        };
+        window.addEventListener('keydown', handleKeyDown);
+        return () => window.removeEventListener('keydown', handleKeyDown);
+    }, [handleUndo, handleRedo]);
+
+    // Conflicts are either put back in the queue or dropped, undoing their optimistic effect. Retrying an
+    // edit that collided with one from another device rebases it onto that version, i.e. overwrites it.
+    const handleResolveConflict = async (entry: OutboxEntry, retry: boolean) => {
+        if (!store?.outbox || entry.id === undefined) return;
+        try {
+            if (retry) {
+                await store.outbox.update({ ...entry, status: OutboxStatus.PENDING, error: undefined, base: entry.remote || entry.base, remote: undefined });
+            } else {
+                await store.outbox.remove(entry.id);
+                const remote = entry.remote;
+                if (isQueuedInsert(entry)) {
+                    setTransactions(prev => prev.filter(tx => tx.id !== entry.transaction.id));
+                } else if (entry.operation === OutboxOperation.REMOVE) {
+                    setTransactions(prev => prev.some(tx => tx.id === entry.transaction.id) ? prev : sortByDateDesc([...prev, entry.transaction]));
+                } else if (remote) {
+                    setTransactions(prev => sortByDateDesc(prev.map(tx => tx.id === remote.id ? remote : tx)));
+                }
+            }
+            setOutboxEntries(await store.outbox.list());
+            if (retry) syncOutbox(store);
+        } catch (err: any) {
+            console.error("Error resolving sync conflict:", err);
+            setError(`Không thể xử lý xung đột đồng bộ. Lỗi: ${getErrorMessage(err)}`);
+        }
+    };
+
+    const handleSaveTemplate = async (template: RecurringTemplate) => {
+        if (!store) return;
+        setIsSaving(true);
+        try {
+            await store.recurring.save(template);
+            setRecurringTemplates(prev => prev.some(t => t.id === template.id)
+                ? prev.map(t => t.id === template.id ? template : t)
+                : [...prev, template]);
+            await materializeRecurring(store, [template]);
+        } catch (err: any) {
+            console.error("Error saving recurring template:", err);
+            setError(`Không thể lưu giao dịch định kỳ. Lỗi: ${getErrorMessage(err)}`);
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    const handleToggleTemplatePause = (template: RecurringTemplate) => {
+        handleSaveTemplate({ ...template, paused: !template.paused });
+    };
+
+    const handleDeleteTemplate = async (template: RecurringTemplate) => {
+        // Transactions already created from the template are kept
+        if (!window.confirm(`Bạn có chắc muốn xóa mẫu định kỳ "${template.description}" không?`) || !store) return;
+        setIsSaving(true);
+        try {
+            await store.recurring.remove(template.id);
+            setRecurringTemplates(prev => prev.filter(t => t.id !== template.id));
+        } catch (err: any) {
+            console.error("Error deleting recurring template:", err);
+            setError(`Không thể xóa giao dịch định kỳ. Lỗi: ${getErrorMessage(err)}`);
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    const handleSaveGoal = async (goal: SavingsGoal) => {
+        if (!store) return;
+        setIsSaving(true);
+        try {
+            await store.goals.save(goal);
+            setSavingsGoals(prev => prev.some(g => g.id === goal.id) ? prev.map(g => g.id === goal.id ? goal : g) : [...prev, goal]);
+        } catch (err: any) {
+            console.error("Error saving savings goal:", err);
+            setError(`Không thể lưu mục tiêu tiết kiệm. Lỗi: ${getErrorMessage(err)}`);
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    const handleDeleteGoal = async (goal: SavingsGoal) => {
+        // Transactions keep the goal id; they simply stop counting towards anything
+        if (!window.confirm(`Bạn có chắc muốn xóa mục tiêu "${goal.name}" không?`) || !store) return;
+        setIsSaving(true);
+        try {
+            await store.goals.remove(goal.id);
+            setSavingsGoals(prev => prev.filter(g => g.id !== goal.id));
+        } catch (err: any) {
+            console.error("Error deleting savings goal:", err);
+            setError(`Không thể xóa mục tiêu tiết kiệm. Lỗi: ${getErrorMessage(err)}`);
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    const handleSaveDebt = async (debt: Debt) => {
+        if (!store) return;
+        setIsSaving(true);
+        try {
+            await store.debts.save(debt);
+            setDebts(prev => prev.some(d => d.id === debt.id) ? prev.map(d => d.id === debt.id ? debt : d) : [...prev, debt]);
+        } catch (err: any) {
+            console.error("Error saving debt:", err);
+            setError(`Không thể lưu khoản vay. Lỗi: ${getErrorMessage(err)}`);
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    const handleDeleteDebt = async (debt: Debt) => {
+        // Repayments keep the debt id and stay in the history as ordinary transactions
+        if (!window.confirm(`Bạn có chắc muốn xóa khoản vay "${debt.name}" không?`) || !store) return;
+        setIsSaving(true);
+        try {
+            await store.debts.remove(debt.id);
+            setDebts(prev => prev.filter(d => d.id !== debt.id));
+        } catch (err: any) {
+            console.error("Error deleting debt:", err);
+            setError(`Không thể xóa khoản vay. Lỗi: ${getErrorMessage(err)}`);
+        } finally {
+            setIsSaving(false);
         }
     };
 
-    const handleSignOut = () => {
-// FIX: Use window.gapi to access the Google API client, as `gapi` is not a global variable in the module scope.
-        const authInstance = window.gapi.auth2.getAuthInstance();
-        if (authInstance) {
-            authInstance.signOut();
+    const handleSaveRate = async (rate: ExchangeRate) => {
+        if (!store) return;
+        setIsSaving(true);
+        try {
+            await store.rates.save(rate);
+            setExchangeRates(prev => [...prev.filter(r => r.id !== rate.id), rate]);
+        } catch (err: any) {
+            console.error("Error saving exchange rate:", err);
+            setError(`Không thể lưu tỷ giá. Lỗi: ${getErrorMessage(err)}`);
+        } finally {
+            setIsSaving(false);
         }
     };
 
-    const handleAddTransaction = async (e: React.FormEvent) => {
-        e.preventDefault();
-        if (!gapiConfig) return;
-        
-        const amount = parseFloat(newTxData.amount);
-        if (!newTxData.description.trim() || isNaN(amount) || amount <= 0) {
-            alert("Vui lòng điền đầy đủ và chính xác các thông tin.");
-            return;
+    const handleDeleteRate = async (rate: ExchangeRate) => {
+        if (!store) return;
+        setIsSaving(true);
+        try {
+            await store.rates.remove(rate.id);
+            setExchangeRates(prev => prev.filter(r => r.id !== rate.id));
+        } catch (err: any) {
+            console.error("Error deleting exchange rate:", err);
+            setError(`Không thể xóa tỷ giá. Lỗi: ${getErrorMessage(err)}`);
+        } finally {
+            setIsSaving(false);
         }
+    };
 
-        if (newTxData.type === TransactionType.TRANSFER && newTxData.source === newTxData.destination) {
-            alert("Nguồn và đích không được giống nhau khi thực hiện chuyển khoản.");
-            return;
-        }
-        
-        const newTransaction: Omit<Transaction, 'rowIndex'> = {
-            id: `txn-${new Date().getTime()}`,
-            date: new Date(newTxData.date).toISOString(),
-            description: newTxData.description.trim(),
-            amount: amount,
-            type: newTxData.type,
-            source: newTxData.source,
-            destination: newTxData.type === TransactionType.TRANSFER ? newTxData.destination : undefined,
-        };
-        
+    const handleRepairRow = async (row: QuarantinedRow, tx: Transaction) => {
+        if (!store) return;
         setIsSaving(true);
         try {
-             const values = [
-                newTransaction.id,
-                newTransaction.date,
-                newTransaction.description,
-                newTransaction.amount,
-                newTransaction.type,
-                newTransaction.source,
-                newTransaction.destination || '',
-            ];
-// FIX: Use window.gapi to access the Google API client, as `gapi` is not a global variable in the module scope.
-            await window.gapi.client.sheets.spreadsheets.values.append({
-                spreadsheetId: gapiConfig.spreadsheetId,
-                range: `${TRANSACTIONS_SHEET_NAME}!A:G`,
-                valueInputOption: 'USER_ENTERED',
-                resource: { values: [values] },
-            });
-            // Instead of reloading all, just add to state for better UX
-            const updatedTransactions = [...transactions, { ...newTransaction, rowIndex: transactions.length + 2 }]
-                .sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime());
-            setTransactions(updatedTransactions);
-            
-            // Reset form
-            setNewTxData({
-                description: '',
-                amount: '',
-                date: new Date().toISOString().split('T')[0],
-                type: TransactionType.EXPENSE,
-                source: TransactionSource.GENERAL,
-                destination: TransactionSource.GENERAL,
+            const repaired = await store.transactions.repairRow(row, {
+                ...tx,
+                currency: tx.currency || accountCurrencies[tx.source] || baseCurrency,
             });
-        } catch(err: any) {
-             console.error("Error adding transaction:", err);
-             setError(`Không thể thêm giao dịch. Lỗi: ${err.result?.error?.message || 'Unknown error'}`);
+            setQuarantinedRows(prev => prev.filter(r => r.rowIndex !== row.rowIndex));
+            setTransactions(prev => sortByDateDesc([...prev.filter(t => t.id !== repaired.id), repaired]));
+        } catch (err: any) {
+            console.error("Error repairing row:", err);
+            setError(`Không thể sửa dòng ${row.rowIndex}. Lỗi: ${getErrorMessage(err)}`);
         } finally {
             setIsSaving(false);
         }
     };
 
-    const handleDeleteTransaction = async (txIdToDelete: string) => {
-        if (!window.confirm(`Bạn có chắc muốn xóa giao dịch này không?`) || !gapiConfig) return;
-
-        const txToDelete = transactions.find(tx => tx.id === txIdToDelete);
-        if (!txToDelete || txToDelete.rowIndex === undefined) {
-             // Fallback: If rowIndex is missing, reload all data to find it.
-            try {
-                setIsLoading(true);
-                const range = `${TRANSACTIONS_SHEET_NAME}!A:G`;
-// FIX: Use window.gapi to access the Google API client, as `gapi` is not a global variable in the module scope.
-                const response = await window.gapi.client.sheets.spreadsheets.values.get({ spreadsheetId: gapiConfig.spreadsheetId, range: range });
-                const values = response.result.values || [];
-                const foundTx = values.findIndex((row: any[]) => row[0] === txIdToDelete);
-                if (foundTx !== -1) {
-                    txToDelete.rowIndex = foundTx + 1;
-                } else {
-                    setError("Không tìm thấy giao dịch để xóa trên Google Sheet.");
-                    setIsLoading(false);
-                    return;
-                }
-            } catch(e) {
-                 setError("Lỗi khi tìm giao dịch để xóa.");
-                 setIsLoading(false);
-                 return;
-            } finally {
-                setIsLoading(false);
-            }
-        }
-        
+    // Undoing keeps the ledger entry and only stops it from counting towards the balance
+    const handleToggleRollover = async (entry: RolloverEntry, undo: boolean) => {
+        if (!store) return;
+        if (undo && !window.confirm(`Hoàn tác quyết toán kỳ ${describePeriod({ key: entry.period, endKey: entry.periodEnd, label: '' })}? Số tiền đã chuyển sẽ bị trừ khỏi số dư.`)) return;
+        const updated: RolloverEntry = { ...entry, undoneAt: undo ? new Date().toISOString() : undefined };
         setIsSaving(true);
         try {
-// FIX: Use window.gapi to access the Google API client, as `gapi` is not a global variable in the module scope.
-            await window.gapi.client.sheets.spreadsheets.batchUpdate({
-                spreadsheetId: gapiConfig.spreadsheetId,
-                resource: {
-                    requests: [{
-                        deleteDimension: {
-                            range: {
-                                sheetId: sheetIds[TRANSACTIONS_SHEET_NAME],
-                                dimension: 'ROWS',
-                                startIndex: txToDelete.rowIndex - 1,
-                                endIndex: txToDelete.rowIndex,
-                            },
-                        },
-                    }],
-                },
-            });
-            // Optimistic update
-            setTransactions(prev => prev.filter(tx => tx.id !== txIdToDelete));
-
+            await store.rollovers.save(updated);
+            setRollovers(prev => prev.map(r => r.id === updated.id ? updated : r));
         } catch (err: any) {
-            console.error("Error deleting transaction:", err);
-            setError(`Không thể xóa giao dịch. Lỗi: ${err.result?.error?.message || 'Unknown error'}`);
+            console.error("Error updating rollover:", err);
+            setError(`Không thể cập nhật quyết toán. Lỗi: ${getErrorMessage(err)}`);
         } finally {
             setIsSaving(false);
         }
     };
 
+    const applySettings = async (dataStore: DataStore, values: ConfigValues) => {
+        await dataStore.config.save(values);
+        applyConfig(await dataStore.config.load());
+    };
+
     const handleSaveSettings = async (e: React.FormEvent) => {
         e.preventDefault();
-        if (!gapiConfig) return;
+        if (!store) return;
+
+        // Budgets of removed categories are blanked so they stop being loaded
+        const budgetConfig: ConfigValues = {};
+        Object.keys(categoryBudgets).forEach(category => {
+            budgetConfig[`${BUDGET_KEY_PREFIX}${category}`] = categories.includes(category) ? categoryBudgets[category] : '';
+        });
+
+        const values: ConfigValues = {
+            ...budgetConfig,
+            ...formatAccountSettings(accountSettings, removedAccountIds),
+            MONTHLY_INCOME_GOAL: monthlyIncomeGoal,
+            LAST_ROLLOVER_MONTH: lastRolloverMonth,
+            PERIOD_TYPE: periodSettings.type,
+            PERIOD_START_DAY: periodSettings.startDay.toString(),
+            PERIOD_ANCHOR_DATE: periodSettings.anchorDate,
+            BASE_CURRENCY: baseCurrency,
+            CATEGORIES: formatListValue(categories),
+        };
 
         setIsSaving(true);
         try {
-            const data = [
-                { range: `${CONFIG_SHEET_NAME}!A1:B1`, values: [['INITIAL_GENERAL_BALANCE', initialBalances.general]] },
-                { range: `${CONFIG_SHEET_NAME}!A2:B2`, values: [['INITIAL_PROVISION_BALANCE', initialBalances.provision]] },
-                { range: `${CONFIG_SHEET_NAME}!A3:B3`, values: [['MONTHLY_INCOME_GOAL', monthlyIncomeGoal]] },
-                { range: `${CONFIG_SHEET_NAME}!A4:B4`, values: [['LAST_ROLLOVER_MONTH', lastRolloverMonth]] },
-            ];
-
-// FIX: Use window.gapi to access the Google API client, as `gapi` is not a global variable in the module scope.
-            await window.gapi.client.sheets.spreadsheets.values.batchUpdate({
-                spreadsheetId: gapiConfig.spreadsheetId,
-                resource: {
-                    valueInputOption: 'USER_ENTERED',
-                    data: data,
-                },
+            const previous = await store.config.load();
+            await store.config.save(values);
+            setRemovedAccountIds([]);
+            // Keys that did not exist before are blanked on undo, which the loader treats as missing
+            const restored: ConfigValues = {};
+            Object.keys(values).forEach(key => { restored[key] = previous[key] ?? ''; });
+            const dataStore = store;
+            pushCommand({
+                label: 'Đã lưu cài đặt',
+                undo: () => applySettings(dataStore, restored),
+                redo: () => applySettings(dataStore, values),
             });
-            alert("Đã lưu cài đặt thành công!");
         } catch (err: any) {
             console.error("Error saving settings:", err);
-            setError(`Không thể lưu cài đặt. Lỗi: ${err.result?.error?.message || 'Unknown error'}`);
+            setError(`Không thể lưu cài đặt. Lỗi: ${getErrorMessage(err)}`);
         } finally {
             setIsSaving(false);
         }
@@ -405,130 +1332,179 @@ const App: React.FC = () => {
         setNewTxData(prev => ({ ...prev, [name]: value }));
     };
     
-    const handleInitialBalanceChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-        const { name, value } = e.target;
-        setInitialBalances(prev => ({ ...prev, [name]: value }));
+    const handleAccountChange = (accountId: string, field: 'name' | 'initialBalance' | 'currency', value: string) => {
+        setAccountSettings(prev => prev.map(account => account.id === accountId ? { ...account, [field]: value } : account));
+    };
+
+    const handleAddAccount = () => {
+        setAccountSettings(prev => [...prev, { id: `acc-${new Date().getTime()}`, name: `Tài khoản ${prev.length + 1}`, initialBalance: '0', currency: baseCurrency }]);
+    };
+
+    const handleRemoveAccount = (accountId: string) => {
+        if (transactions.some(tx => tx.source === accountId || tx.destination === accountId)
+            && !window.confirm("Tài khoản này vẫn còn giao dịch. Các giao dịch sẽ được giữ lại và hiển thị dưới mã tài khoản. Tiếp tục?")) {
+            return;
+        }
+        setAccountSettings(prev => prev.filter(account => account.id !== accountId));
+        setRemovedAccountIds(prev => [...prev, accountId]);
     };
 
     const handleIncomeGoalChange = (e: React.ChangeEvent<HTMLInputElement>) => {
         setMonthlyIncomeGoal(e.target.value);
     };
-    
-    // Effect for handling the monthly rollover on the 15th
-    useEffect(() => {
-        if (!isSignedIn || !gapiConfig) return; // Don't run if not signed in
 
-        const now = new Date(currentDate);
-        const dayOfMonth = now.getDate();
-        const currentMonthStr = `${now.getFullYear()}-${(now.getMonth() + 1).toString().padStart(2, '0')}`;
-        
-        if (dayOfMonth >= 15 && lastRolloverMonth !== currentMonthStr) {
-            const prevPeriodStartDate = new Date(now.getFullYear(), now.getMonth() - 1, 15);
-            const prevPeriodEndDate = new Date(now.getFullYear(), now.getMonth(), 15);
+    const handlePeriodSettingChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
+        const { name, value } = e.target;
+        setPeriodSettings(prev => ({ ...prev, [name]: name === 'startDay' ? Math.min(31, Math.max(1, parseInt(value, 10) || 1)) : value }));
+    };
+
+    const handleAddCategory = () => {
+        // Commas separate categories in the Config sheet, so they cannot be part of a name
+        const name = newCategory.replace(/,/g, ' ').trim();
+        if (!name || categories.includes(name)) return;
+        setCategories(prev => [...prev, name]);
+        setNewCategory('');
+    };
+
+    const handleRemoveCategory = (name: string) => {
+        setCategories(prev => prev.filter(category => category !== name));
+    };
 
-            const prevPeriodTransactions = transactions.filter(tx => {
-                const txDate = new Date(tx.date);
-                return txDate >= prevPeriodStartDate && txDate < prevPeriodEndDate;
+    const handleBudgetChange = (category: string, value: string) => {
+        setCategoryBudgets(prev => ({ ...prev, [category]: value }));
+    };
+    
+    // --- Memoized calculations for UI ---
+    // Accounts from the Config sheet, plus any account id that only appears in transactions
+    // (e.g. a deleted account or a hand-typed row) so its money stays visible
+    const accounts = useMemo((): Account[] => {
+        const list: Account[] = accountSettings.map(account => ({
+            id: account.id,
+            name: account.name,
+            initialBalance: parseFloat(account.initialBalance) || 0,
+            currency: account.currency,
+        }));
+        transactions.forEach(tx => {
+            [tx.source, tx.destination].forEach(id => {
+                if (id && !list.some(account => account.id === id)) list.push({ id, name: id, initialBalance: 0, currency: baseCurrency });
             });
+        });
+        return list;
+    }, [accountSettings, transactions, baseCurrency]);
 
-            const spent = prevPeriodTransactions
-                .filter(tx => tx.type === TransactionType.EXPENSE)
-                .reduce((sum, tx) => sum + tx.amount, 0);
+    const accountNames = useMemo(() => {
+        const names: { [accountId: string]: string } = {};
+        accounts.forEach(account => { names[account.id] = account.name; });
+        return names;
+    }, [accounts]);
 
-            const transferOutFromGeneral = prevPeriodTransactions
-                .filter(tx => tx.type === TransactionType.TRANSFER && tx.source === TransactionSource.GENERAL)
-                .reduce((sum, tx) => sum + tx.amount, 0);
-            
-            const totalUsed = spent + transferOutFromGeneral;
-            const goal = parseFloat(monthlyIncomeGoal) || 0;
-            const rolloverAmount = goal - totalUsed;
+    const accountCurrencies = useMemo(() => {
+        const currencies: { [accountId: string]: string } = {};
+        accounts.forEach(account => { currencies[account.id] = account.currency; });
+        return currencies;
+    }, [accounts]);
 
-            if (rolloverAmount > 0) {
-                const newBalance = (parseFloat(initialBalances.general) || 0) + rolloverAmount;
-                const updatedBalances = { ...initialBalances, general: newBalance.toString() };
-                
-                const data = [
-                    { range: `${CONFIG_SHEET_NAME}!B1`, values: [[newBalance.toString()]] },
-                    { range: `${CONFIG_SHEET_NAME}!B4`, values: [[currentMonthStr]] },
-                ];
+    const converter = useMemo(() => createConverter(exchangeRates), [exchangeRates]);
 
-// FIX: Use window.gapi to access the Google API client, as `gapi` is not a global variable in the module scope.
-                window.gapi.client.sheets.spreadsheets.values.batchUpdate({
-                    spreadsheetId: gapiConfig.spreadsheetId,
-                    resource: { valueInputOption: 'USER_ENTERED', data },
-                }).then(() => {
-                    setInitialBalances(updatedBalances);
-                    setLastRolloverMonth(currentMonthStr);
-                    alert(`Đã quyết toán kỳ trước. Số dư còn lại ${formatCurrency(rolloverAmount)} đã được cộng vào số dư chính.`);
-                }).catch((err: any) => {
-                    setError(`Không thể cập nhật quyết toán tự động. Lỗi: ${err.result?.error?.message}`);
-                });
-            } else {
-// FIX: Use window.gapi to access the Google API client, as `gapi` is not a global variable in the module scope.
-                 window.gapi.client.sheets.spreadsheets.values.update({
-                    spreadsheetId: gapiConfig.spreadsheetId,
-                    range: `${CONFIG_SHEET_NAME}!B4`,
-                    valueInputOption: 'USER_ENTERED',
-                    resource: { values: [[currentMonthStr]] }
-                }).then(() => {
-                     setLastRolloverMonth(currentMonthStr);
-                });
-            }
-        }
-    }, [currentDate, transactions, monthlyIncomeGoal, initialBalances, lastRolloverMonth, gapiConfig, isSignedIn]);
+    // A transaction without a currency predates multi-currency support and is in its account's currency
+    const getTransactionCurrency = useCallback(
+        (tx: Transaction) => tx.currency || accountCurrencies[tx.source] || baseCurrency,
+        [accountCurrencies, baseCurrency]
+    );
 
-    // --- Memoized calculations for UI ---
-    const balances = useMemo(() => {
-        const initialGeneral = parseFloat(initialBalances.general) || 0;
-        const initialProvision = parseFloat(initialBalances.provision) || 0;
+    // A transaction's amount in the currency of one of its accounts, at the transaction's date
+    const amountInAccount = useCallback(
+        (tx: Transaction, accountId: string) => converter.convert(tx.amount, getTransactionCurrency(tx), accountCurrencies[accountId] || baseCurrency, tx.date),
+        [converter, getTransactionCurrency, accountCurrencies, baseCurrency]
+    );
 
-        let general = initialGeneral;
-        let provision = initialProvision;
+    const balances = useMemo(() => computeBalances(accounts, transactions, rollovers, amountInAccount),
+        [accounts, transactions, rollovers, amountInAccount]);
 
-        transactions.forEach(tx => {
-            switch (tx.type) {
-                case TransactionType.INCOME:
-                    if (tx.source === TransactionSource.GENERAL) general += tx.amount;
-                    else if (tx.source === TransactionSource.PROVISION) provision += tx.amount;
-                    break;
-                case TransactionType.EXPENSE:
-                    if (tx.source === TransactionSource.GENERAL) general -= tx.amount;
-                    else if (tx.source === TransactionSource.PROVISION) provision -= tx.amount;
-                    break;
-                case TransactionType.TRANSFER:
-                    if (tx.source === TransactionSource.GENERAL && tx.destination === TransactionSource.PROVISION) {
-                        general -= tx.amount;
-                        provision += tx.amount;
-                    } else if (tx.source === TransactionSource.PROVISION && tx.destination === TransactionSource.GENERAL) {
-                        provision -= tx.amount;
-                        general += tx.amount;
-                    }
-                    break;
-            }
-        });
+    const goalProgress = useMemo(
+        () => computeGoalProgress(savingsGoals, transactions, tx => amountInAccount(tx, TransactionSource.PROVISION), currentDate),
+        [savingsGoals, transactions, amountInAccount, currentDate]
+    );
 
-        return { general, provision };
-    }, [transactions, initialBalances]);
+    const goalNames = useMemo(() => new Map(savingsGoals.map(goal => [goal.id, goal.name])), [savingsGoals]);
 
-    const currentMonthStats = useMemo(() => {
-        const goal = parseFloat(monthlyIncomeGoal) || 0;
-        const now = new Date(currentDate);
-        const dayOfMonth = now.getDate();
+    const debtStatuses = useMemo(
+        () => computeDebtStatus(debts, transactions, (tx, currency) => converter.convert(tx.amount, getTransactionCurrency(tx), currency, tx.date), currentDate),
+        [debts, transactions, converter, getTransactionCurrency, currentDate]
+    );
 
-        let startDate, endDate;
+    const debtNames = useMemo(() => new Map(debts.map(debt => [debt.id, debt.name])), [debts]);
 
-        if (dayOfMonth < 15) {
-            startDate = new Date(now.getFullYear(), now.getMonth() - 1, 15);
-            endDate = new Date(now.getFullYear(), now.getMonth(), 15);
-        } else {
-            startDate = new Date(now.getFullYear(), now.getMonth(), 15);
-            endDate = new Date(now.getFullYear(), now.getMonth() + 1, 15);
-        }
+    // Debts that can be linked to what the form is adding: repayments we make are expenses,
+    // repayments we receive are income
+    const linkableDebts = useMemo(
+        () => debts.filter(debt => getRepaymentType(debt) === newTxData.type),
+        [debts, newTxData.type]
+    );
 
-        const periodTransactions = transactions.filter(tx => {
-            const txDate = new Date(tx.date);
-            return txDate >= startDate && txDate < endDate;
+    const balanceHistory = useMemo(() => computeBalanceHistory(accounts, transactions, rollovers, amountInAccount,
+        (amount, accountId, date) => converter.convert(amount, accountCurrencies[accountId] || baseCurrency, baseCurrency, date),
+        debtStatuses, (amount, currency, date) => converter.convert(amount, currency, baseCurrency, date),
+        currentDate),
+        [accounts, transactions, rollovers, amountInAccount, converter, accountCurrencies, baseCurrency, debtStatuses, currentDate]);
+
+    // Each balance converted at the latest rate, for comparing accounts held in different currencies
+    const baseBalances = useMemo(() => {
+        const converted: { [accountId: string]: number } = {};
+        accounts.forEach(account => {
+            converted[account.id] = converter.convert(balances[account.id] || 0, account.currency, baseCurrency, currentDate);
         });
+        return converted;
+    }, [accounts, balances, converter, baseCurrency, currentDate]);
+
+    // Every report below works on amounts converted to the base currency at the transaction's date;
+    // the transaction list keeps showing the original amounts
+    const baseTransactions = useMemo(() => transactions.map(tx => {
+        const currency = getTransactionCurrency(tx);
+        return currency === baseCurrency ? tx : { ...tx, amount: converter.convert(tx.amount, currency, baseCurrency, tx.date) };
+    }), [transactions, converter, getTransactionCurrency, baseCurrency]);
+
+    const baseAmounts = useMemo(() => {
+        const amounts: { [transactionId: string]: number } = {};
+        baseTransactions.forEach(tx => { amounts[tx.id] = tx.amount; });
+        return amounts;
+    }, [baseTransactions]);
+
+    const debtTotals = useMemo(
+        () => sumDebtBalances(debtStatuses, (amount, currency) => converter.convert(amount, currency, baseCurrency, currentDate)),
+        [debtStatuses, converter, baseCurrency, currentDate]
+    );
+
+    const netWorth = useMemo(
+        () => accounts.reduce((sum, account) => sum + (baseBalances[account.id] || 0), 0) - debtTotals.owed + debtTotals.receivable,
+        [accounts, baseBalances, debtTotals]
+    );
+
+    const currenciesInUse = useMemo(() => Array.from(new Set([
+        baseCurrency,
+        ...accounts.map(account => account.currency),
+        ...transactions.map(getTransactionCurrency),
+    ])), [baseCurrency, accounts, transactions, getTransactionCurrency]);
+
+    const missingRateCurrencies = useMemo(
+        () => currenciesInUse.filter(currency => !converter.hasRate(currency, baseCurrency)),
+        [currenciesInUse, converter, baseCurrency]
+    );
+
+    const currencyOptions = useMemo(
+        () => Array.from(new Set([...currenciesInUse, ...COMMON_CURRENCIES, ...exchangeRates.flatMap(rate => [rate.from, rate.to])])),
+        [currenciesInUse, exchangeRates]
+    );
+
+    const currentPeriod = useMemo(() => getPeriod(currentDate, periodSettings), [currentDate, periodSettings]);
+
+    const periodTransactions = useMemo(
+        () => baseTransactions.filter(tx => isInPeriod(tx.date, currentPeriod)),
+        [baseTransactions, currentPeriod]
+    );
+
+    const currentPeriodStats = useMemo(() => {
+        const goal = parseFloat(monthlyIncomeGoal) || 0;
 
         const spent = periodTransactions
             .filter(tx => tx.type === TransactionType.EXPENSE)
@@ -544,35 +1520,106 @@ const App: React.FC = () => {
         const progress = goal > 0 ? (totalUsed / goal) * 100 : 0;
 
         return { remaining, totalUsed, progress: Math.min(progress, 100) };
-    }, [transactions, monthlyIncomeGoal, currentDate]);
+    }, [periodTransactions, monthlyIncomeGoal]);
+
+    const periodForecast = useMemo(() => forecastPeriod(
+        baseTransactions,
+        recurringTemplates,
+        (template, date) => converter.convert(template.amount, template.currency || accountCurrencies[template.source] || baseCurrency, baseCurrency, date),
+        baseBalances,
+        currentPeriodStats.totalUsed,
+        currentPeriod,
+        currentDate,
+        periodSettings,
+    ), [baseTransactions, recurringTemplates, converter, accountCurrencies, baseCurrency, baseBalances, currentPeriodStats, currentPeriod, currentDate, periodSettings]);
+
+    const isForecastOverGoal = (parseFloat(monthlyIncomeGoal) || 0) > 0 && periodForecast.projectedUsed > (parseFloat(monthlyIncomeGoal) || 0);
+
+    const categoryBudgetStatuses = useMemo(
+        () => processCategoryBudgets(periodTransactions, categoryBudgets),
+        [periodTransactions, categoryBudgets]
+    );
+
+    // Warn once per category and period each time spending crosses a higher threshold
+    useEffect(() => {
+        const periodKey = currentPeriod.key;
+        const warnings: string[] = [];
+        categoryBudgetStatuses.forEach(status => {
+            const key = `${periodKey}|${status.category}`;
+            const notified = notifiedBudgetThresholdsRef.current[key] || 0;
+            if (status.threshold > notified) {
+                warnings.push(status.threshold >= 100
+                    ? `Danh mục "${status.category}" đã vượt ngân sách kỳ này (${Math.round(status.progress)}%).`
+                    : `Danh mục "${status.category}" đã dùng ${Math.round(status.progress)}% ngân sách kỳ này.`);
+            }
+            notifiedBudgetThresholdsRef.current[key] = status.threshold;
+        });
+        if (warnings.length > 0) {
+            setBudgetWarnings(prev => [...prev, ...warnings]);
+        }
+    }, [categoryBudgetStatuses, currentPeriod]);
+
+    // Warn once per period when the projection first goes over the goal
+    useEffect(() => {
+        const key = `${currentPeriod.key}|forecast`;
+        if (isForecastOverGoal && !notifiedBudgetThresholdsRef.current[key]) {
+            setBudgetWarnings(prev => [...prev, `Theo tốc độ chi hiện tại, kỳ này dự kiến dùng ${formatCurrency(periodForecast.projectedUsed)}, vượt mục tiêu ${formatCurrency(parseFloat(monthlyIncomeGoal) || 0)}.`]);
+        }
+        notifiedBudgetThresholdsRef.current[key] = isForecastOverGoal ? 100 : 0;
+    }, [isForecastOverGoal, periodForecast, currentPeriod, monthlyIncomeGoal]);
     
-    const uniqueMonths = useMemo(() => {
-        const months = new Set(transactions.map(tx => tx.date.substring(0, 7)));
-        return Array.from(months).sort().reverse();
-    }, [transactions]);
+    // The latest queued write of each transaction still shown; removals hide their row instead
+    const outboxEntryById = useMemo(() => {
+        const entryById = new Map<string, OutboxEntry>();
+        [...outboxEntries]
+            .sort((a, b) => (a.id ?? 0) - (b.id ?? 0))
+            .filter(entry => entry.operation !== OutboxOperation.REMOVE)
+            .forEach(entry => entryById.set(entry.transaction.id, entry));
+        return entryById;
+    }, [outboxEntries]);
+
+    const remotelyChangedIds = useMemo(
+        () => new Set(remoteChanges ? [...remoteChanges.added, ...remoteChanges.changed].map(tx => tx.id) : []),
+        [remoteChanges],
+    );
+
+    const syncConflicts = useMemo(() => outboxEntries.filter(entry => entry.status === OutboxStatus.CONFLICT), [outboxEntries]);
+    const pendingSyncCount = outboxEntries.length - syncConflicts.length;
+
+    // Periods that contain at least one transaction, newest first
+    const uniquePeriods = useMemo(() => {
+        const periods = new Map<string, BudgetPeriod>();
+        transactions.forEach(tx => {
+            const period = getPeriod(tx.date, periodSettings);
+            periods.set(period.key, period);
+        });
+        return Array.from(periods.values()).sort((a, b) => b.key.localeCompare(a.key));
+    }, [transactions, periodSettings]);
     
-    const [selectedMonth, setSelectedMonth] = useState<string>('');
+    const [selectedPeriodKey, setSelectedPeriodKey] = useState<string>('');
+    const selectedPeriod = useMemo(() => uniquePeriods.find(period => period.key === selectedPeriodKey), [uniquePeriods, selectedPeriodKey]);
 
     useEffect(() => {
-        if (uniqueMonths.length > 0) {
-            if (!selectedMonth || !uniqueMonths.includes(selectedMonth)) {
-                setSelectedMonth(uniqueMonths[0]);
+        if (uniquePeriods.length > 0) {
+            if (!selectedPeriod) {
+                setSelectedPeriodKey(uniquePeriods[0].key);
             }
         } else {
-             setSelectedMonth('');
+             setSelectedPeriodKey('');
         }
-    }, [uniqueMonths, selectedMonth]);
+    }, [uniquePeriods, selectedPeriod]);
 
-    const monthlyData = useMemo(() => processMonthlyData(transactions), [transactions]);
-    const dailyData = useMemo(() => selectedMonth ? processDailyData(transactions, selectedMonth) : [], [transactions, selectedMonth]);
+    const monthlyData = useMemo(() => processMonthlyData(baseTransactions, periodSettings, currentDate), [baseTransactions, periodSettings, currentDate]);
+    const dailyData = useMemo(() => selectedPeriod ? processDailyData(baseTransactions, selectedPeriod) : [], [baseTransactions, selectedPeriod]);
+    const categoryData = useMemo(() => selectedPeriod ? processCategoryData(baseTransactions, selectedPeriod) : [], [baseTransactions, selectedPeriod]);
 
-    const selectedMonthSummary = useMemo(() => {
-        if (!selectedMonth) return { income: 0, expense: 0, transferOut: 0, remaining: 0 };
+    const selectedPeriodSummary = useMemo(() => {
+        if (!selectedPeriod) return { income: 0, expense: 0, transferOut: 0, remaining: 0 };
 
         const summary = { income: 0, expense: 0, transferOut: 0 };
 
-        transactions
-            .filter(tx => tx.date.startsWith(selectedMonth))
+        baseTransactions
+            .filter(tx => isInPeriod(tx.date, selectedPeriod))
             .forEach(tx => {
                 if (tx.type === TransactionType.INCOME) summary.income += tx.amount;
                 else if (tx.type === TransactionType.EXPENSE) summary.expense += tx.amount;
@@ -581,11 +1628,54 @@ const App: React.FC = () => {
         
         const remaining = summary.income - summary.expense - summary.transferOut;
         return { ...summary, remaining };
-    }, [transactions, selectedMonth]);
+    }, [baseTransactions, selectedPeriod]);
+
+    // Amounts are in the base currency unless a currency is given
+    const formatCurrency = (value: number, currency: string = baseCurrency) => formatMoney(value, currency);
+
+    // Effect for settling the previous period when a new budget period starts. The settlement is
+    // written to the rollover ledger, which the balances add up, and is checked against a fresh copy
+    // of the ledger under a cross-tab lock so two open tabs never settle the same period twice.
+    useEffect(() => {
+        if (!isSignedIn || !store || isLoading) return; // Wait until the data has loaded
+        if (isPreviousPeriodSettled(rollovers, currentPeriod.key, lastRolloverMonth)) return;
+
+        const prevPeriod = shiftPeriod(currentPeriod, -1, periodSettings);
+        const goal = parseFloat(monthlyIncomeGoal) || 0;
+        const generalCurrency = accountSettings.find(account => account.id === TransactionSource.GENERAL)?.currency || baseCurrency;
+
+        runExclusive('rollover-settle', async () => {
+            // Another tab or device may have settled the period since this one loaded the ledger
+            const ledger = dedupeRollovers(await store.rollovers.list());
+            if (isPreviousPeriodSettled(ledger, currentPeriod.key, lastRolloverMonth)) return { ledger, entry: null };
+            // The goal is in the base currency, the balance in the account's own currency
+            const entry = createRolloverEntry(prevPeriod, baseTransactions, goal, baseCurrency,
+                amount => converter.convert(amount, baseCurrency, generalCurrency, currentDate));
+            await store.rollovers.save(entry);
+            return { ledger: [entry, ...ledger], entry };
+        }).then(({ ledger, entry }) => {
+            setRollovers(dedupeRollovers(ledger));
+            if (entry && entry.carried > 0) {
+                alert(`Đã quyết toán kỳ trước. Số dư còn lại ${formatCurrency(entry.carried)} đã được cộng vào số dư chính.`);
+            }
+        }).catch((err: any) => {
+            setError(`Không thể cập nhật quyết toán tự động. Lỗi: ${getErrorMessage(err)}`);
+        });
+    }, [currentDate, currentPeriod, periodSettings, baseTransactions, converter, baseCurrency, monthlyIncomeGoal, accountSettings, lastRolloverMonth, rollovers, store, isSignedIn, isLoading]);
+
     
     // --- Render logic ---
-    if (!gapiConfig) {
-        return <ConfigSetup onConnect={handleConnect} initialSpreadsheetId="1ZY4epEmhscFzkZEXcCUG5HyuxiQIxuiNJx5_RsgE984" isGapiReady={isGapiScriptLoaded} />;
+    if (!connection) {
+        return (
+            <ConfigSetup
+                profiles={profiles}
+                onConnect={handleConnect}
+                onSelectProfile={openProfile}
+                onDeleteProfile={handleDeleteProfile}
+                isGapiReady={isGapiScriptLoaded}
+                profileError={profileError}
+            />
+        );
     }
     
     if (isLoading) {
@@ -600,20 +1690,18 @@ const App: React.FC = () => {
     }
 
     if (!isSignedIn) {
+        return <Auth onSignIn={handleSignIn} onSwitchConnection={handleLeaveConnection} error={error} />;
+    }
+
+    if (schemaPlan) {
         return (
-            <div className="flex flex-col items-center justify-center min-h-screen bg-primary">
-                <div className="bg-secondary p-8 rounded-lg shadow-lg text-center">
-                    <h2 className="text-2xl font-bold text-highlight mb-4">Chào mừng bạn!</h2>
-                    <p className="text-text-secondary mb-6">Vui lòng đăng nhập với tài khoản Google để tiếp tục.</p>
-                    <button
-                        onClick={handleSignIn}
-                        className="bg-highlight text-primary font-bold py-2 px-6 rounded-md hover:bg-teal-400 transition duration-300 flex items-center justify-center mx-auto"
-                    >
-                       <i className="fab fa-google mr-2"></i> Đăng nhập với Google
-                    </button>
-                    {error && <p className="text-red-400 mt-4 text-sm">{error}</p>}
-                </div>
-            </div>
+            <SchemaWizard
+                plan={schemaPlan}
+                isApplying={isApplyingSchema}
+                error={schemaError}
+                onApply={handleApplySchema}
+                onCancel={handleLeaveConnection}
+            />
         );
     }
     
@@ -632,12 +1720,47 @@ const App: React.FC = () => {
                     <i className="fas fa-wallet mr-2"></i>
                     Personal Finance Tracker
                 </h1>
-                <button
-                    onClick={handleSignOut}
-                    className="bg-red-600 hover:bg-red-700 text-white text-sm font-bold py-2 px-4 rounded-md transition duration-300"
-                >
-                    <i className="fas fa-sign-out-alt mr-2"></i>Đăng xuất
-                </button>
+                <div className="flex gap-3">
+                    <select
+                        aria-label="Kết nối"
+                        value={activeProfileId || ''}
+                        onChange={(e) => handleSwitchProfile(e.target.value)}
+                        className="bg-primary border border-accent rounded-md p-2 text-sm focus:outline-none focus:ring-2 focus:ring-highlight max-w-[12rem]"
+                    >
+                        {profiles.map(profile => (<option key={profile.id} value={profile.id}>{profile.name}</option>))}
+                        <option value="">Quản lý kết nối...</option>
+                    </select>
+                    <button
+                        onClick={handleUndo}
+                        disabled={history.past.length === 0 || isSaving}
+                        title="Hoàn tác (Ctrl+Z)"
+                        className="bg-accent hover:bg-gray-600 text-text-primary text-sm py-2 px-3 rounded-md transition duration-300 disabled:opacity-40"
+                    >
+                        <i className="fas fa-undo"></i>
+                    </button>
+                    <button
+                        onClick={handleRedo}
+                        disabled={history.future.length === 0 || isSaving}
+                        title="Làm lại (Ctrl+Shift+Z)"
+                        className="bg-accent hover:bg-gray-600 text-text-primary text-sm py-2 px-3 rounded-md transition duration-300 disabled:opacity-40"
+                    >
+                        <i className="fas fa-redo"></i>
+                    </button>
+                    <button
+                        onClick={() => setView(view === 'dashboard' ? 'history' : 'dashboard')}
+                        className="bg-accent hover:bg-gray-600 text-text-primary text-sm font-bold py-2 px-4 rounded-md transition duration-300"
+                    >
+                        {view === 'dashboard'
+                            ? <><i className="fas fa-list mr-2"></i>Lịch sử giao dịch</>
+                            : <><i className="fas fa-chart-pie mr-2"></i>Tổng quan</>}
+                    </button>
+                    <button
+                        onClick={handleSignOut}
+                        className="bg-red-600 hover:bg-red-700 text-white text-sm font-bold py-2 px-4 rounded-md transition duration-300"
+                    >
+                        <i className="fas fa-sign-out-alt mr-2"></i>Đăng xuất
+                    </button>
+                </div>
             </header>
             
             {error && (
@@ -647,25 +1770,96 @@ const App: React.FC = () => {
                 </div>
             )}
 
+            {profileError && (
+                 <div className="bg-red-500 text-white p-4 m-4 rounded-lg shadow-lg text-center">
+                    <p>{profileError}</p>
+                    <button onClick={() => setProfileError(null)} className="font-bold underline ml-4">Đóng</button>
+                </div>
+            )}
+
+            {budgetWarnings.length > 0 && (
+                 <div className="bg-yellow-500 text-primary p-4 m-4 rounded-lg shadow-lg text-center">
+                    {budgetWarnings.map((warning, index) => (<p key={index}><i className="fas fa-exclamation-triangle mr-2"></i>{warning}</p>))}
+                    <button onClick={() => setBudgetWarnings([])} className="font-bold underline ml-4">Đóng</button>
+                </div>
+            )}
+
+            {remoteChanges && (
+                 <div className="bg-secondary border border-highlight p-4 m-4 rounded-lg shadow-lg text-center">
+                    <p>
+                        <i className="fas fa-sync-alt text-highlight mr-2"></i>Đã cập nhật thay đổi từ thiết bị khác: {[
+                            remoteChanges.added.length > 0 ? `${remoteChanges.added.length} giao dịch mới` : '',
+                            remoteChanges.changed.length > 0 ? `${remoteChanges.changed.length} giao dịch được sửa` : '',
+                            remoteChanges.removed.length > 0 ? `${remoteChanges.removed.length} giao dịch bị xóa` : '',
+                        ].filter(Boolean).join(', ')}.
+                    </p>
+                    {remoteChanges.removed.length > 0 && (
+                        <p className="text-sm text-text-secondary mt-1">Đã xóa: {remoteChanges.removed.map(tx => tx.description).join(', ')}</p>
+                    )}
+                    <button onClick={() => setRemoteChanges(null)} className="font-bold underline ml-4">Đóng</button>
+                </div>
+            )}
+
             <main className="p-4 md:p-8 grid grid-cols-1 lg:grid-cols-3 gap-8 flex-grow">
+                {view === 'history' ? (
+                <div className="lg:col-span-2">
+                    <TransactionHistory
+                        transactions={transactions}
+                        baseAmounts={baseAmounts}
+                        accounts={accounts}
+                        baseCurrency={baseCurrency}
+                        getTransactionCurrency={getTransactionCurrency}
+                        onEdit={handleStartEdit}
+                        onDeleteMany={handleDeleteTransactions}
+                        highlightedIds={remotelyChangedIds}
+                    />
+                </div>
+                ) : (
                 <div className="lg:col-span-2 space-y-8">
+                    {quarantinedRows.length > 0 && (
+                        <QuarantinePanel
+                            rows={quarantinedRows}
+                            accounts={accounts}
+                            categories={categories}
+                            currencies={currencyOptions}
+                            isSaving={isSaving}
+                            onRepair={handleRepairRow}
+                        />
+                    )}
+
                     <form className="bg-secondary p-6 rounded-lg shadow-lg" onSubmit={handleSaveSettings}>
                          <div className="flex justify-between items-center mb-4">
                             <h3 className="text-lg font-semibold text-text-secondary">Thiết lập số dư & Thu nhập</h3>
                         </div>
-                        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                            <div>
-                                <label htmlFor="general" className="block text-sm font-medium text-text-secondary mb-1">Số dư chính</label>
-                                <input type="number" name="general" id="general" value={initialBalances.general} onChange={handleInitialBalanceChange} placeholder="0" className="w-full bg-primary border border-accent rounded-md p-2 text-text-primary focus:outline-none focus:ring-2 focus:ring-highlight" />
-                            </div>
-                            <div>
-                                <label htmlFor="provision" className="block text-sm font-medium text-text-secondary mb-1">Quỹ dự phòng</label>
-                                <input type="number" name="provision" id="provision" value={initialBalances.provision} onChange={handleInitialBalanceChange} placeholder="0" className="w-full bg-primary border border-accent rounded-md p-2 text-text-primary focus:outline-none focus:ring-2 focus:ring-highlight" />
+                        <div>
+                            <p className="block text-sm font-medium text-text-secondary mb-1">Tài khoản & số dư ban đầu</p>
+                            <div className="space-y-2">
+                                {accountSettings.map(account => (
+                                    <div key={account.id} className="grid grid-cols-12 gap-2 items-center">
+                                        <input type="text" aria-label="Tên tài khoản" value={account.name} onChange={(e) => handleAccountChange(account.id, 'name', e.target.value)} className="col-span-5 bg-primary border border-accent rounded-md p-2 text-text-primary focus:outline-none focus:ring-2 focus:ring-highlight" />
+                                        <input type="number" aria-label="Số dư ban đầu" value={account.initialBalance} onChange={(e) => handleAccountChange(account.id, 'initialBalance', e.target.value)} placeholder="0" className="col-span-4 bg-primary border border-accent rounded-md p-2 text-text-primary focus:outline-none focus:ring-2 focus:ring-highlight" />
+                                        <select aria-label="Tiền tệ" value={account.currency} onChange={(e) => handleAccountChange(account.id, 'currency', e.target.value)} className="col-span-2 bg-primary border border-accent rounded-md p-2 text-text-primary focus:outline-none focus:ring-2 focus:ring-highlight">
+                                            {currencyOptions.map(currency => (<option key={currency} value={currency}>{currency}</option>))}
+                                        </select>
+                                        {BUILT_IN_ACCOUNTS.some(builtIn => builtIn.id === account.id) ? (
+                                            <span className="col-span-1 text-center text-text-secondary" title="Tài khoản mặc định"><i className="fas fa-lock"></i></span>
+                                        ) : (
+                                            <button type="button" onClick={() => handleRemoveAccount(account.id)} className="col-span-1 text-red-500" title="Xóa tài khoản"><i className="fas fa-trash"></i></button>
+                                        )}
+                                    </div>
+                                ))}
                             </div>
+                            <button type="button" onClick={handleAddAccount} className="mt-2 text-sm text-highlight hover:underline"><i className="fas fa-plus mr-1"></i>Thêm tài khoản</button>
                         </div>
-                        <div className="mt-4 grid grid-cols-1 md:grid-cols-2 gap-4">
+                        <div className="mt-4 grid grid-cols-1 md:grid-cols-3 gap-4">
                              <div>
-                                <label htmlFor="incomeGoal" className="block text-sm font-medium text-text-secondary mb-1">Thiết lập thu nhập hàng tháng</label>
+                                <label htmlFor="baseCurrency" className="block text-sm font-medium text-text-secondary mb-1">Tiền tệ gốc (để quy đổi)</label>
+                                <select name="baseCurrency" id="baseCurrency" value={baseCurrency} onChange={(e) => setBaseCurrency(e.target.value)} className="w-full bg-primary border border-accent rounded-md p-2 text-text-primary focus:outline-none focus:ring-2 focus:ring-highlight">
+                                    {currencyOptions.map(currency => (<option key={currency} value={currency}>{currency}</option>))}
+                                </select>
+                            </div>
+                             <div>
+                                <label htmlFor="incomeGoal" className="block text-sm font-medium text-text-secondary mb-1">Thiết lập thu nhập mỗi kỳ ({baseCurrency})</label>
                                 <input type="number" name="incomeGoal" id="incomeGoal" value={monthlyIncomeGoal} onChange={handleIncomeGoalChange} placeholder="0" className="w-full bg-primary border border-accent rounded-md p-2 text-text-primary focus:outline-none focus:ring-2 focus:ring-highlight" />
                             </div>
                             <div>
@@ -673,72 +1867,221 @@ const App: React.FC = () => {
                                 <input type="date" name="currentDate" id="currentDate" value={currentDate} onChange={(e) => setCurrentDate(e.target.value)} className="w-full bg-primary border border-accent rounded-md p-2 text-text-primary focus:outline-none focus:ring-2 focus:ring-highlight" />
                             </div>
                         </div>
+                        <div className="mt-4 grid grid-cols-1 md:grid-cols-3 gap-4">
+                            <div>
+                                <label htmlFor="periodType" className="block text-sm font-medium text-text-secondary mb-1">Chu kỳ ngân sách</label>
+                                <select name="type" id="periodType" value={periodSettings.type} onChange={handlePeriodSettingChange} className="w-full bg-primary border border-accent rounded-md p-2 text-text-primary focus:outline-none focus:ring-2 focus:ring-highlight">
+                                    <option value={BudgetPeriodType.MONTHLY}>Hàng tháng</option>
+                                    <option value={BudgetPeriodType.WEEKLY}>Hàng tuần</option>
+                                    <option value={BudgetPeriodType.BIWEEKLY}>Hai tuần một lần</option>
+                                </select>
+                            </div>
+                            {periodSettings.type === BudgetPeriodType.MONTHLY ? (
+                                <div>
+                                    <label htmlFor="periodStartDay" className="block text-sm font-medium text-text-secondary mb-1">Ngày bắt đầu kỳ (1-31)</label>
+                                    <input type="number" min="1" max="31" name="startDay" id="periodStartDay" value={periodSettings.startDay} onChange={handlePeriodSettingChange} className="w-full bg-primary border border-accent rounded-md p-2 text-text-primary focus:outline-none focus:ring-2 focus:ring-highlight" />
+                                </div>
+                            ) : (
+                                <div>
+                                    <label htmlFor="periodAnchorDate" className="block text-sm font-medium text-text-secondary mb-1">Một ngày bắt đầu kỳ (ví dụ ngày nhận lương)</label>
+                                    <input type="date" name="anchorDate" id="periodAnchorDate" value={periodSettings.anchorDate} onChange={handlePeriodSettingChange} required className="w-full bg-primary border border-accent rounded-md p-2 text-text-primary focus:outline-none focus:ring-2 focus:ring-highlight" />
+                                </div>
+                            )}
+                            <div>
+                                <p className="block text-sm font-medium text-text-secondary mb-1">Kỳ hiện tại</p>
+                                <p className="p-2">{describePeriod(currentPeriod)}</p>
+                            </div>
+                        </div>
+                        <div className="mt-4">
+                            <label htmlFor="newCategory" className="block text-sm font-medium text-text-secondary mb-1">Danh mục chi tiêu</label>
+                            <div className="flex flex-wrap gap-2 mb-2">
+                                {categories.map(category => (
+                                    <span key={category} className="bg-primary border border-accent rounded-full px-3 py-1 text-sm flex items-center">
+                                        {category}
+                                        <button type="button" onClick={() => handleRemoveCategory(category)} className="ml-2 text-text-secondary hover:text-red-400"><i className="fas fa-times"></i></button>
+                                    </span>
+                                ))}
+                            </div>
+                            <div className="flex gap-2">
+                                <input type="text" id="newCategory" value={newCategory} onChange={(e) => setNewCategory(e.target.value)} onKeyDown={(e) => { if (e.key === 'Enter') { e.preventDefault(); handleAddCategory(); } }} placeholder="Tên danh mục mới" className="flex-grow bg-primary border border-accent rounded-md p-2 text-text-primary focus:outline-none focus:ring-2 focus:ring-highlight" />
+                                <button type="button" onClick={handleAddCategory} className="bg-accent text-text-primary font-bold py-2 px-4 rounded-md hover:bg-gray-600 transition duration-300">Thêm</button>
+                            </div>
+                        </div>
+                        <div className="mt-4">
+                            <p className="block text-sm font-medium text-text-secondary mb-1">Ngân sách mỗi kỳ theo danh mục, tính bằng {baseCurrency} (để trống nếu không giới hạn)</p>
+                            <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+                                {categories.map(category => (
+                                    <div key={category} className="flex items-center gap-2">
+                                        <label htmlFor={`budget-${category}`} className="w-1/2 text-sm truncate">{category}</label>
+                                        <input type="number" id={`budget-${category}`} value={categoryBudgets[category] || ''} onChange={(e) => handleBudgetChange(category, e.target.value)} placeholder="0" className="w-1/2 bg-primary border border-accent rounded-md p-2 text-text-primary focus:outline-none focus:ring-2 focus:ring-highlight" />
+                                    </div>
+                                ))}
+                            </div>
+                        </div>
                         <button type="submit" className="mt-4 w-full bg-highlight text-primary font-bold py-2 px-4 rounded-md hover:bg-teal-400 transition duration-300">
                             Lưu Cài Đặt
                         </button>
                     </form>
                 
                     <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+                        {accounts.map(account => (
+                            <div key={account.id} className="bg-secondary p-6 rounded-lg shadow-lg">
+                                <h3 className="text-lg font-semibold text-text-secondary mb-2">{account.name}</h3>
+                                <p className={`text-3xl font-bold ${getAccountColor(account.id)}`}>{formatCurrency(balances[account.id] || 0, account.currency)}</p>
+                                {account.currency !== baseCurrency && (
+                                    <p className="text-sm text-text-secondary mt-1">≈ {formatCurrency(baseBalances[account.id] || 0)}</p>
+                                )}
+                                <p className="text-sm text-text-secondary mt-1">Cuối kỳ dự kiến: ≈ {formatCurrency(periodForecast.projectedBalances[account.id] || 0)}</p>
+                            </div>
+                        ))}
                         <div className="bg-secondary p-6 rounded-lg shadow-lg">
-                            <h3 className="text-lg font-semibold text-text-secondary mb-2">Số dư chính</h3>
-                            <p className="text-3xl font-bold text-green-400">{formatCurrency(balances.general)}</p>
-                        </div>
-                        <div className="bg-secondary p-6 rounded-lg shadow-lg">
-                            <h3 className="text-lg font-semibold text-text-secondary mb-2">Số dư quỹ dự phòng</h3>
-                            <p className="text-3xl font-bold text-yellow-400">{formatCurrency(balances.provision)}</p>
+                            <h3 className="text-lg font-semibold text-text-secondary mb-2">Tài sản ròng</h3>
+                            <p className={`text-3xl font-bold ${netWorth >= 0 ? 'text-highlight' : 'text-red-500'}`}>{formatCurrency(netWorth)}</p>
+                            <div className="mt-2 text-sm space-y-1">
+                                {debtTotals.owed > 0 && (
+                                    <p className="flex justify-between"><span className="text-text-secondary">Đang nợ:</span><span className="text-red-400">(-) {formatCurrency(debtTotals.owed)}</span></p>
+                                )}
+                                {debtTotals.receivable > 0 && (
+                                    <p className="flex justify-between"><span className="text-text-secondary">Cho vay chưa thu:</span><span className="text-green-400">(+) {formatCurrency(debtTotals.receivable)}</span></p>
+                                )}
+                            </div>
                         </div>
                          <div className="bg-secondary p-6 rounded-lg shadow-lg">
                             <h3 className="text-lg font-semibold text-text-secondary mb-2">Thu nhập còn lại (kỳ này)</h3>
-                            <p className={`text-3xl font-bold ${currentMonthStats.remaining >= 0 ? 'text-blue-400' : 'text-red-500'}`}>
-                                {formatCurrency(currentMonthStats.remaining)}
+                            <p className={`text-3xl font-bold ${currentPeriodStats.remaining >= 0 ? 'text-blue-400' : 'text-red-500'}`}>
+                                {formatCurrency(currentPeriodStats.remaining)}
                             </p>
                              <div className="mt-4">
                                 <div className="w-full bg-primary rounded-full h-2.5">
-                                    <div className={`h-2.5 rounded-full ${currentMonthStats.progress > 85 ? 'bg-red-500' : currentMonthStats.progress > 60 ? 'bg-yellow-500' : 'bg-highlight'}`} style={{ width: `${currentMonthStats.progress}%` }} role="progressbar" ></div>
+                                    <div className={`h-2.5 rounded-full ${currentPeriodStats.progress > 85 ? 'bg-red-500' : currentPeriodStats.progress > 60 ? 'bg-yellow-500' : 'bg-highlight'}`} style={{ width: `${currentPeriodStats.progress}%` }} role="progressbar" ></div>
                                 </div>
                                 <div className="flex justify-between text-sm text-text-secondary mt-1">
-                                    <span>Đã dùng: {formatCurrency(currentMonthStats.totalUsed)}</span>
+                                    <span>Đã dùng: {formatCurrency(currentPeriodStats.totalUsed)}</span>
                                     <span>Mục tiêu: {formatCurrency(parseFloat(monthlyIncomeGoal) || 0)}</span>
                                 </div>
                             </div>
+                            <div className="mt-4 pt-4 border-t border-accent text-sm space-y-1">
+                                <p className="flex justify-between">
+                                    <span className="text-text-secondary">Dự báo cuối kỳ:</span>
+                                    <span className={`font-bold ${isForecastOverGoal ? 'text-red-500' : 'text-text-primary'}`}>{formatCurrency(periodForecast.projectedUsed)}</span>
+                                </p>
+                                <p className="text-text-secondary">
+                                    Khoảng {formatCurrency(periodForecast.projectedUsedLow)} – {formatCurrency(periodForecast.projectedUsedHigh)} · {formatCurrency(periodForecast.dailyRate)}/ngày
+                                    {periodForecast.recurringUsed > 0 && <> · {formatCurrency(periodForecast.recurringUsed)} định kỳ sắp tới</>}
+                                </p>
+                                {isForecastOverGoal && (
+                                    <p className="text-red-400"><i className="fas fa-exclamation-triangle mr-2"></i>Dự kiến vượt mục tiêu {formatCurrency(periodForecast.projectedUsed - (parseFloat(monthlyIncomeGoal) || 0))}.</p>
+                                )}
+                            </div>
                         </div>
                     </div>
+
+                    <CategoryBudgets statuses={categoryBudgetStatuses} currency={baseCurrency} />
                     
-                     {selectedMonth && (
+                     {selectedPeriod && (
                         <div className="bg-secondary p-6 rounded-lg shadow-lg">
-                            <h3 className="text-lg font-semibold text-text-secondary mb-4">Dòng tiền tháng {selectedMonth.substring(5, 7)}/{selectedMonth.substring(0, 4)}</h3>
+                            <h3 className="text-lg font-semibold text-text-secondary mb-4">Dòng tiền kỳ {describePeriod(selectedPeriod)}</h3>
                             <div className="space-y-3">
-                                <div className="flex justify-between items-center"><p>Thu nhập:</p><p className="font-bold text-green-400">(+) {formatCurrency(selectedMonthSummary.income)}</p></div>
-                                <div className="flex justify-between items-center"><p>Chi tiêu:</p><p className="font-bold text-red-400">(-) {formatCurrency(selectedMonthSummary.expense)}</p></div>
-                                <div className="flex justify-between items-center"><p>Chuyển khoản đi (Nguồn chính):</p><p className="font-bold text-yellow-400">(-) {formatCurrency(selectedMonthSummary.transferOut)}</p></div>
+                                <div className="flex justify-between items-center"><p>Thu nhập:</p><p className="font-bold text-green-400">(+) {formatCurrency(selectedPeriodSummary.income)}</p></div>
+                                <div className="flex justify-between items-center"><p>Chi tiêu:</p><p className="font-bold text-red-400">(-) {formatCurrency(selectedPeriodSummary.expense)}</p></div>
+                                <div className="flex justify-between items-center"><p>Chuyển khoản đi (Nguồn chính):</p><p className="font-bold text-yellow-400">(-) {formatCurrency(selectedPeriodSummary.transferOut)}</p></div>
                                 <hr className="border-accent my-2" />
                                 <div className="flex justify-between items-center">
                                     <p className="text-xl font-bold">Còn lại:</p>
-                                    <p className={`text-2xl font-bold ${selectedMonthSummary.remaining >= 0 ? 'text-highlight' : 'text-red-500'}`}>{formatCurrency(selectedMonthSummary.remaining)}</p>
+                                    <p className={`text-2xl font-bold ${selectedPeriodSummary.remaining >= 0 ? 'text-highlight' : 'text-red-500'}`}>{formatCurrency(selectedPeriodSummary.remaining)}</p>
                                 </div>
                             </div>
                         </div>
                     )}
                     
-                    <MonthlyComparisonChart data={monthlyData} />
+                    <MonthlyComparisonChart data={monthlyData} currency={baseCurrency} />
+
+                    <NetWorthChart points={balanceHistory.points} markers={balanceHistory.markers} accounts={accounts} currency={baseCurrency} />
                     
                     <div className="bg-secondary p-6 rounded-lg shadow-lg">
                          <div className="flex justify-between items-center mb-4">
                             <h3 className="text-xl font-bold">Chi tiêu hàng ngày</h3>
-                             <select value={selectedMonth} onChange={(e) => setSelectedMonth(e.target.value)} className="bg-primary border border-accent rounded-md p-2 focus:outline-none focus:ring-2 focus:ring-highlight" disabled={uniqueMonths.length === 0}>
-                                {uniqueMonths.map(month => (<option key={month} value={month}>{month}</option>))}
+                             <select value={selectedPeriodKey} onChange={(e) => setSelectedPeriodKey(e.target.value)} className="bg-primary border border-accent rounded-md p-2 focus:outline-none focus:ring-2 focus:ring-highlight" disabled={uniquePeriods.length === 0}>
+                                {uniquePeriods.map(period => (<option key={period.key} value={period.key}>{describePeriod(period)}</option>))}
                             </select>
                         </div>
-                        <DailyExpenseChart data={dailyData} month={selectedMonth ? selectedMonth.substring(5, 7) : ''} />
+                        <div className="grid grid-cols-1 xl:grid-cols-2 gap-6">
+                            <DailyExpenseChart data={dailyData} period={selectedPeriod ? selectedPeriod.label : ''} currency={baseCurrency} forecast={selectedPeriod && selectedPeriod.key === currentPeriod.key ? periodForecast.days : undefined} />
+                            <CategoryBreakdownChart data={categoryData} period={selectedPeriod ? selectedPeriod.label : ''} currency={baseCurrency} />
+                        </div>
                     </div>
+
+                    <SavingsGoals
+                        goals={goalProgress}
+                        currency={accountCurrencies[TransactionSource.PROVISION] || baseCurrency}
+                        onSave={handleSaveGoal}
+                        onDelete={handleDeleteGoal}
+                    />
+
+                    <DebtManager
+                        debts={debtStatuses}
+                        currencies={currencyOptions}
+                        baseCurrency={baseCurrency}
+                        today={currentDate}
+                        onSave={handleSaveDebt}
+                        onDelete={handleDeleteDebt}
+                    />
+
+                    <RecurringManager
+                        templates={recurringTemplates}
+                        accounts={accounts}
+                        categories={categories}
+                        currencies={currencyOptions}
+                        today={toDateKey(new Date())}
+                        onSave={handleSaveTemplate}
+                        onDelete={handleDeleteTemplate}
+                        onTogglePause={handleToggleTemplatePause}
+                    />
+
+                    <RolloverHistory
+                        entries={rollovers}
+                        accountNames={accountNames}
+                        accountCurrencies={accountCurrencies}
+                        onUndo={entry => handleToggleRollover(entry, true)}
+                        onReapply={entry => handleToggleRollover(entry, false)}
+                    />
+
+                    <ExchangeRates
+                        rates={exchangeRates}
+                        currencies={currencyOptions}
+                        baseCurrency={baseCurrency}
+                        missingCurrencies={missingRateCurrencies}
+                        today={toDateKey(new Date())}
+                        onSave={handleSaveRate}
+                        onDelete={handleDeleteRate}
+                    />
+
+                    <DataManager
+                        transactions={transactions}
+                        accounts={accounts}
+                        currencies={currencyOptions}
+                        reportTransactions={baseTransactions}
+                        baseCurrency={baseCurrency}
+                        periodSettings={periodSettings}
+                        getTransactionCurrency={getTransactionCurrency}
+                        onImport={handleImportTransactions}
+                        onCreateBackup={handleCreateBackup}
+                        onRestoreBackup={handleRestoreBackup}
+                    />
                 </div>
+                )}
 
                 <aside className="lg:col-span-1 bg-secondary p-6 rounded-lg shadow-lg">
                     <div className="mb-6">
-                        <h3 className="text-xl font-bold mb-4">Thêm giao dịch mới</h3>
-                        <form onSubmit={handleAddTransaction} className="space-y-3">
+                        <h3 className="text-xl font-bold mb-4">{editingTx ? 'Sửa giao dịch' : 'Thêm giao dịch mới'}</h3>
+                        <form onSubmit={editingTx ? handleUpdateTransaction : handleAddTransaction} className="space-y-3">
                             <input type="text" name="description" value={newTxData.description} onChange={handleNewTxChange} placeholder="Mô tả" className="w-full bg-primary border border-accent rounded-md p-2 focus:outline-none focus:ring-2 focus:ring-highlight" required />
-                            <input type="number" name="amount" value={newTxData.amount} onChange={handleNewTxChange} placeholder="Số tiền" className="w-full bg-primary border border-accent rounded-md p-2 focus:outline-none focus:ring-2 focus:ring-highlight" required />
+                            <div className="flex gap-2">
+                                <input type="number" name="amount" value={newTxData.amount} onChange={handleNewTxChange} placeholder="Số tiền" className="flex-grow bg-primary border border-accent rounded-md p-2 focus:outline-none focus:ring-2 focus:ring-highlight" required />
+                                <select name="currency" aria-label="Tiền tệ" value={newTxData.currency || accountCurrencies[newTxData.source] || baseCurrency} onChange={handleNewTxChange} className="bg-primary border border-accent rounded-md p-2 focus:outline-none focus:ring-2 focus:ring-highlight">
+                                    {currencyOptions.map(currency => (<option key={currency} value={currency}>{currency}</option>))}
+                                </select>
+                            </div>
                             <input type="date" name="date" value={newTxData.date} onChange={handleNewTxChange} className="w-full bg-primary border border-accent rounded-md p-2 focus:outline-none focus:ring-2 focus:ring-highlight" required />
                             <select name="type" value={newTxData.type} onChange={handleNewTxChange} className="w-full bg-primary border border-accent rounded-md p-2 focus:outline-none focus:ring-2 focus:ring-highlight">
                                 <option value={TransactionType.EXPENSE}>Chi tiêu</option>
@@ -746,36 +2089,119 @@ const App: React.FC = () => {
                                 <option value={TransactionType.TRANSFER}>Chuyển khoản</option>
                             </select>
                             <select name="source" value={newTxData.source} onChange={handleNewTxChange} className="w-full bg-primary border border-accent rounded-md p-2 focus:outline-none focus:ring-2 focus:ring-highlight">
-                                <option value={TransactionSource.GENERAL}>Nguồn chính</option>
-                                <option value={TransactionSource.PROVISION}>Quỹ dự phòng</option>
+                                {accounts.map(account => (<option key={account.id} value={account.id}>{account.name}</option>))}
                             </select>
                             {newTxData.type === TransactionType.TRANSFER && (
                                 <select name="destination" value={newTxData.destination} onChange={handleNewTxChange} className="w-full bg-primary border border-accent rounded-md p-2 focus:outline-none focus:ring-2 focus:ring-highlight">
-                                    <option value={TransactionSource.GENERAL}>Nguồn chính</option>
-                                    <option value={TransactionSource.PROVISION}>Quỹ dự phòng</option>
+                                    {accounts.map(account => (<option key={account.id} value={account.id}>{account.name}</option>))}
+                                </select>
+                            )}
+                            {newTxData.type !== TransactionType.TRANSFER && (
+                                <select name="category" value={newTxData.category} onChange={handleNewTxChange} className="w-full bg-primary border border-accent rounded-md p-2 focus:outline-none focus:ring-2 focus:ring-highlight">
+                                    <option value="">{UNCATEGORIZED_LABEL}</option>
+                                    {categories.map(category => (<option key={category} value={category}>{category}</option>))}
+                                    {newTxData.category && !categories.includes(newTxData.category) && (
+                                        <option value={newTxData.category}>{newTxData.category}</option>
+                                    )}
                                 </select>
                             )}
-                            <button type="submit" className="w-full bg-highlight text-primary font-bold py-2 px-4 rounded-md hover:bg-teal-400 transition duration-300">Thêm</button>
+                            {getProvisionDirection(newTxData) !== 0 && (savingsGoals.length > 0 || newTxData.goal) && (
+                                <select name="goal" aria-label="Mục tiêu tiết kiệm" value={newTxData.goal} onChange={handleNewTxChange} className="w-full bg-primary border border-accent rounded-md p-2 focus:outline-none focus:ring-2 focus:ring-highlight">
+                                    <option value="">Không gán mục tiêu</option>
+                                    {savingsGoals.map(goal => (<option key={goal.id} value={goal.id}>{goal.name}</option>))}
+                                    {newTxData.goal && !goalNames.has(newTxData.goal) && (
+                                        <option value={newTxData.goal}>{newTxData.goal}</option>
+                                    )}
+                                </select>
+                            )}
+                            {newTxData.type !== TransactionType.TRANSFER && (linkableDebts.length > 0 || newTxData.debt) && (
+                                <select name="debt" aria-label="Khoản vay" value={newTxData.debt} onChange={handleNewTxChange} className="w-full bg-primary border border-accent rounded-md p-2 focus:outline-none focus:ring-2 focus:ring-highlight">
+                                    <option value="">Không phải trả nợ</option>
+                                    {linkableDebts.map(debt => (<option key={debt.id} value={debt.id}>Trả nợ: {debt.name} ({debt.counterparty})</option>))}
+                                    {newTxData.debt && !linkableDebts.some(debt => debt.id === newTxData.debt) && (
+                                        <option value={newTxData.debt}>{debtNames.get(newTxData.debt) || newTxData.debt}</option>
+                                    )}
+                                </select>
+                            )}
+                            <input type="text" name="tags" value={newTxData.tags} onChange={handleNewTxChange} placeholder="Thẻ (cách nhau bởi dấu phẩy)" className="w-full bg-primary border border-accent rounded-md p-2 focus:outline-none focus:ring-2 focus:ring-highlight" />
+                            <button type="submit" className="w-full bg-highlight text-primary font-bold py-2 px-4 rounded-md hover:bg-teal-400 transition duration-300">{editingTx ? 'Lưu thay đổi' : 'Thêm'}</button>
+                            {editingTx && (
+                                <button type="button" onClick={handleCancelEdit} className="w-full bg-accent text-text-primary font-bold py-2 px-4 rounded-md hover:bg-gray-600 transition duration-300">Hủy</button>
+                            )}
                         </form>
                     </div>
 
-                    <h3 className="text-xl font-bold mb-4">Giao dịch gần đây</h3>
+                    {syncConflicts.length > 0 && (
+                        <div className="mb-6 border border-red-500 rounded-md p-4">
+                            <h3 className="text-lg font-bold text-red-400 mb-3"><i className="fas fa-exclamation-triangle mr-2"></i>Xung đột đồng bộ</h3>
+                            <div className="space-y-3">
+                                {syncConflicts.map(entry => (
+                                    <div key={entry.id} className="bg-primary rounded-md p-3 text-sm">
+                                        <p className="font-semibold">
+                                            {entry.operation === OutboxOperation.ADD ? 'Thêm' : entry.operation === OutboxOperation.RESTORE ? 'Khôi phục' : entry.operation === OutboxOperation.UPDATE ? 'Sửa' : 'Xóa'}: {entry.transaction.description} ({formatCurrency(entry.transaction.amount, getTransactionCurrency(entry.transaction))})
+                                        </p>
+                                        <p className="text-red-400 mt-1">{entry.error}</p>
+                                        {entry.remote && (
+                                            <p className="text-text-secondary mt-1">
+                                                Trên Google Sheets: {entry.remote.description} ({formatCurrency(entry.remote.amount, getTransactionCurrency(entry.remote))}, {new Date(entry.remote.date).toLocaleDateString('vi-VN')})
+                                            </p>
+                                        )}
+                                        <div className="flex gap-4 mt-2">
+                                            <button onClick={() => handleResolveConflict(entry, true)} className="text-highlight hover:underline">{entry.remote ? 'Giữ bản của tôi' : 'Thử lại'}</button>
+                                            <button onClick={() => handleResolveConflict(entry, false)} className="text-text-secondary hover:underline">{entry.remote ? 'Dùng bản trên Google Sheets' : 'Bỏ qua'}</button>
+                                        </div>
+                                    </div>
+                                ))}
+                            </div>
+                        </div>
+                    )}
+
+                    <div className="flex justify-between items-center mb-4">
+                        <h3 className="text-xl font-bold">Giao dịch gần đây</h3>
+                        {pendingSyncCount > 0 && (
+                            <span className="text-xs text-yellow-400"><i className="fas fa-cloud-upload-alt mr-1"></i>{pendingSyncCount} thay đổi chờ đồng bộ</span>
+                        )}
+                        {store?.outboxError && (
+                            <span className="text-xs text-red-400" title={store.outboxError}><i className="fas fa-exclamation-circle mr-1"></i>Không thể lưu thay đổi khi mất mạng</span>
+                        )}
+                    </div>
                     <div className="space-y-4 overflow-y-auto max-h-[calc(100vh-450px)]">
                         {transactions.slice(0, 20).map(tx => (
-                            <div key={tx.id} className="flex justify-between items-center p-3 bg-primary rounded-md group">
+                            <div key={tx.id} className={`flex justify-between items-center p-3 bg-primary rounded-md group ${remotelyChangedIds.has(tx.id) ? 'ring-1 ring-highlight' : ''}`}>
                                 <div>
                                     <p className="font-semibold">{tx.description}</p>
+                                    {tx.tags && tx.tags.length > 0 && (
+                                        <div className="flex flex-wrap gap-1 my-1">
+                                            {tx.tags.map(tag => (<span key={tag} className="text-xs bg-accent rounded-full px-2">#{tag}</span>))}
+                                        </div>
+                                    )}
                                     <p className="text-sm text-text-secondary">{new Date(tx.date).toLocaleDateString('vi-VN')}
                                         <span className="mx-2">·</span>
                                         <span className={`${tx.type === TransactionType.INCOME ? 'text-green-400' : tx.type === TransactionType.EXPENSE ? 'text-red-400' : 'text-yellow-400'}`}>
                                             {tx.type === TransactionType.INCOME ? 'Thu nhập' : tx.type === TransactionType.EXPENSE ? 'Chi tiêu' : 'Chuyển khoản'}
                                         </span>
+                                        <span className="mx-2">·</span>
+                                        <span>{accountNames[tx.source] || tx.source}{tx.type === TransactionType.TRANSFER && tx.destination ? ` → ${accountNames[tx.destination] || tx.destination}` : ''}</span>
+                                        {tx.category && (<><span className="mx-2">·</span><span>{tx.category}</span></>)}
+                                        {tx.debt && (<><span className="mx-2">·</span><span><i className="fas fa-hand-holding-usd mr-1"></i>{debtNames.get(tx.debt) || tx.debt}</span></>)}
+                                        {tx.goal && (<><span className="mx-2">·</span><span><i className="fas fa-bullseye mr-1"></i>{goalNames.get(tx.goal) || tx.goal}</span></>)}
+                                        {outboxEntryById.has(tx.id) && (
+                                            outboxEntryById.get(tx.id)!.status === OutboxStatus.CONFLICT
+                                                ? <span className="ml-2 text-xs text-red-400"><i className="fas fa-exclamation-circle mr-1"></i>Xung đột</span>
+                                                : <span className="ml-2 text-xs text-yellow-400"><i className="fas fa-clock mr-1"></i>{isQueuedInsert(outboxEntryById.get(tx.id)!) ? 'Chờ đồng bộ' : 'Chờ đồng bộ thay đổi'}</span>
+                                        )}
+                                        {remotelyChangedIds.has(tx.id) && (
+                                            <span className="ml-2 text-xs text-highlight"><i className="fas fa-sync-alt mr-1"></i>Từ thiết bị khác</span>
+                                        )}
                                     </p>
                                 </div>
                                 <p className={`font-bold mr-4 ${tx.type === TransactionType.INCOME ? 'text-green-400' : tx.type === TransactionType.EXPENSE ? 'text-red-400' : 'text-yellow-400'}`}>
-                                    {tx.type === TransactionType.INCOME ? '+' : tx.type === TransactionType.EXPENSE ? '-' : ''}{formatCurrency(tx.amount)}
+                                    {tx.type === TransactionType.INCOME ? '+' : tx.type === TransactionType.EXPENSE ? '-' : ''}{formatCurrency(tx.amount, getTransactionCurrency(tx))}
                                 </p>
-                                <button onClick={() => handleDeleteTransaction(tx.id)} className="text-red-500 opacity-0 group-hover:opacity-100 transition-opacity"><i className="fas fa-trash"></i></button>
+                                <div className="flex gap-3 opacity-0 group-hover:opacity-100 transition-opacity">
+                                    <button onClick={() => handleStartEdit(tx)} className="text-highlight"><i className="fas fa-pen"></i></button>
+                                    <button onClick={() => handleDeleteTransaction(tx.id)} className="text-red-500"><i className="fas fa-trash"></i></button>
+                                </div>
                             </div>
                         ))}
                          {transactions.length === 0 && !isLoading && (
@@ -788,6 +2214,15 @@ const App: React.FC = () => {
                 <p className="text-text-secondary text-sm">Developed by <a href="https://hoangtr.com.vn" target="_blank" rel="noopener noreferrer" className="text-highlight hover:underline">Hoang Tran</a>.</p>
                 <p className="text-text-secondary text-sm mt-1">Support: <a href="mailto:huytrannguyen962@gmail.com" className="text-highlight hover:underline">huytrannguyen962@gmail.com</a></p>
             </footer>
+            {toast && (
+                <UndoToast
+                    key={toast.id}
+                    message={toast.message}
+                    actionLabel={toast.action === 'undo' ? 'Hoàn tác' : 'Làm lại'}
+                    onAction={toast.action === 'undo' ? handleUndo : handleRedo}
+                    onDismiss={dismissToast}
+                />
+            )}
         </div>
     );
 };
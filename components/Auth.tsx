@@ -0,0 +1,194 @@
+import React from 'react';
+
+// Google sign-in through the Google Identity Services (GIS) token flow, which replaces the
+// deprecated gapi.auth2. gapi is still used, but only as the Sheets API client: GIS hands out the
+// access token and gapi.client sends it with every request.
+
+declare global {
+  interface Window {
+    google: any;
+  }
+}
+
+const GAPI_SCRIPT_URL = 'https://apis.google.com/js/api.js';
+const GIS_SCRIPT_URL = 'https://accounts.google.com/gsi/client';
+const SCOPES = 'https://www.googleapis.com/auth/spreadsheets';
+
+const TOKEN_STORAGE_PREFIX = 'pft-google-token:';
+// Refresh this long before the token expires so requests in flight never see it lapse
+const REFRESH_MARGIN_MS = 5 * 60 * 1000;
+
+export interface GoogleAuth {
+  isSignedIn(): boolean;
+  // Interactive sign-in; must be called from a click so the consent popup is not blocked
+  signIn(): Promise<void>;
+  // Gets a new token without showing anything; rejects when the user has to sign in again
+  refresh(): Promise<void>;
+  // Revokes the token so the app no longer has access until the next sign-in
+  signOut(): Promise<void>;
+  // Stops the refresh timer, for when the connection changes
+  dispose(): void;
+}
+
+interface StoredToken {
+  accessToken: string;
+  expiresAt: number; // Epoch milliseconds
+}
+
+const loadScript = (id: string, src: string): Promise<void> =>
+  new Promise((resolve, reject) => {
+    const existing = document.getElementById(id);
+    if (existing) {
+      if (existing.dataset.loaded) resolve();
+      else {
+        existing.addEventListener('load', () => resolve());
+        existing.addEventListener('error', () => reject(new Error(`Không tải được ${src}`)));
+      }
+      return;
+    }
+    const script = document.createElement('script');
+    script.id = id;
+    script.src = src;
+    script.async = true;
+    script.defer = true;
+    script.onload = () => {
+      script.dataset.loaded = 'true';
+      resolve();
+    };
+    script.onerror = () => reject(new Error(`Không tải được ${src}`));
+    document.body.appendChild(script);
+  });
+
+// Loads the gapi client and the GIS library; safe to call more than once
+export const loadGoogleLibraries = async (): Promise<void> => {
+  await Promise.all([loadScript('google-api-script', GAPI_SCRIPT_URL), loadScript('google-gis-script', GIS_SCRIPT_URL)]);
+  await new Promise<void>(resolve => window.gapi.load('client', () => resolve()));
+};
+
+// onChange is told about every sign-in and sign-out; `expired` is set when the session ended
+// because the token could not be renewed rather than because the user signed out
+export const createGoogleAuth = (clientId: string, onChange: (signedIn: boolean, expired: boolean) => void): GoogleAuth => {
+  const storageKey = `${TOKEN_STORAGE_PREFIX}${clientId}`;
+  let token: StoredToken | null = null;
+  let refreshTimer: number | undefined;
+  let pending: Promise<void> | null = null;
+  let settle: { resolve: () => void, reject: (err: any) => void } | null = null;
+
+  const setToken = (next: StoredToken | null) => {
+    token = next;
+    window.clearTimeout(refreshTimer);
+    window.gapi.client.setToken(next ? { access_token: next.accessToken } : null);
+    if (next) {
+      // The token only lives for this browser session, like the gapi.auth2 session it replaces
+      sessionStorage.setItem(storageKey, JSON.stringify(next));
+      refreshTimer = window.setTimeout(() => {
+        // A failed refresh surfaces on the next request, which asks for a new token or signs out
+        auth.refresh().catch(err => console.error("Error refreshing access token:", err));
+      }, Math.max(0, next.expiresAt - Date.now() - REFRESH_MARGIN_MS));
+    } else {
+      sessionStorage.removeItem(storageKey);
+    }
+  };
+
+  const tokenClient = window.google.accounts.oauth2.initTokenClient({
+    client_id: clientId,
+    scope: SCOPES,
+    callback: (response: any) => {
+      if (response.error) {
+        settle?.reject(response);
+        return;
+      }
+      setToken({ accessToken: response.access_token, expiresAt: Date.now() + Number(response.expires_in) * 1000 });
+      settle?.resolve();
+    },
+    // Popup closed or blocked; the response callback is not called in that case
+    error_callback: (err: any) => settle?.reject(err),
+  });
+
+  // GIS reports through the callbacks above, so each request is turned into a promise. Concurrent
+  // callers (e.g. several requests failing with an expired token at once) share one request.
+  const requestToken = (prompt: string): Promise<void> => {
+    if (pending) return pending;
+    pending = new Promise<void>((resolve, reject) => {
+      settle = { resolve, reject };
+      tokenClient.requestAccessToken({ prompt });
+    }).finally(() => {
+      pending = null;
+      settle = null;
+    });
+    return pending;
+  };
+
+  const auth: GoogleAuth = {
+    isSignedIn: () => !!token && token.expiresAt > Date.now(),
+
+    async signIn() {
+      await requestToken('');
+      onChange(true, false);
+    },
+
+    async refresh() {
+      try {
+        await requestToken('none');
+      } catch (err) {
+        setToken(null);
+        onChange(false, true);
+        throw err;
+      }
+    },
+
+    async signOut() {
+      const accessToken = token?.accessToken;
+      setToken(null);
+      if (accessToken) {
+        await new Promise<void>(resolve => window.google.accounts.oauth2.revoke(accessToken, () => resolve()));
+      }
+      onChange(false, false);
+    },
+
+    dispose() {
+      window.clearTimeout(refreshTimer);
+    },
+  };
+
+  // A reload within the same session keeps the user signed in while the token is still valid
+  try {
+    const stored: StoredToken = JSON.parse(sessionStorage.getItem(storageKey) || 'null');
+    if (stored && stored.expiresAt - REFRESH_MARGIN_MS > Date.now()) setToken(stored);
+    else sessionStorage.removeItem(storageKey);
+  } catch {
+    sessionStorage.removeItem(storageKey);
+  }
+
+  return auth;
+};
+
+interface AuthProps {
+  onSignIn: () => void;
+  onSwitchConnection: () => void;
+  error: string | null;
+}
+
+// Sign-in screen shown while connected to Google Sheets without a valid token
+const Auth: React.FC<AuthProps> = ({ onSignIn, onSwitchConnection, error }) => {
+  return (
+    <div className="flex flex-col items-center justify-center min-h-screen bg-primary">
+      <div className="bg-secondary p-8 rounded-lg shadow-lg text-center">
+        <h2 className="text-2xl font-bold text-highlight mb-4">Chào mừng bạn!</h2>
+        <p className="text-text-secondary mb-6">Vui lòng đăng nhập với tài khoản Google để tiếp tục.</p>
+        <button
+          onClick={onSignIn}
+          className="bg-highlight text-primary font-bold py-2 px-6 rounded-md hover:bg-teal-400 transition duration-300 flex items-center justify-center mx-auto"
+        >
+          <i className="fab fa-google mr-2"></i> Đăng nhập với Google
+        </button>
+        {error && <p className="text-red-400 mt-4 text-sm">{error}</p>}
+        <button onClick={onSwitchConnection} className="mt-6 text-sm text-highlight hover:underline">
+          <i className="fas fa-exchange-alt mr-1"></i>Đổi kết nối
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default Auth;
@@ -0,0 +1,51 @@
+import React from 'react';
+import { PieChart, Pie, Cell, Tooltip, Legend, ResponsiveContainer } from 'recharts';
+import { CategoryData } from '../types';
+import { formatMoney } from '../currency';
+
+interface CategoryBreakdownChartProps {
+  data: CategoryData[];
+  period: string;
+  currency: string;
+}
+
+const COLORS = ['#38b2ac', '#f56565', '#ecc94b', '#4299e1', '#9f7aea', '#ed8936', '#48bb78', '#ed64a6', '#a0aec0', '#667eea'];
+
+const CustomTooltip = ({ active, payload, currency }: any) => {
+  if (active && payload && payload.length) {
+    return (
+      <div className="bg-secondary p-4 rounded-lg shadow-lg border border-accent">
+        <p className="label font-bold text-highlight">{payload[0].name}</p>
+        <p className="text-red-400">{`Chi tiêu: ${formatMoney(payload[0].value, currency)}`}</p>
+      </div>
+    );
+  }
+  return null;
+};
+
+const CategoryBreakdownChart: React.FC<CategoryBreakdownChartProps> = ({ data, period, currency }) => {
+  return (
+    <div className="bg-secondary p-6 rounded-lg shadow-lg w-full h-96">
+      <h3 className="text-xl font-bold mb-4 text-text-primary">Chi tiêu theo danh mục kỳ {period}</h3>
+      {data.length > 0 ? (
+        <ResponsiveContainer width="100%" height="100%">
+          <PieChart margin={{ top: 5, right: 20, left: 20, bottom: 20 }}>
+            <Pie data={data} dataKey="expense" nameKey="category" innerRadius="45%" outerRadius="75%" paddingAngle={2}>
+              {data.map((entry, index) => (
+                <Cell key={entry.category} fill={COLORS[index % COLORS.length]} stroke="#2d3748" />
+              ))}
+            </Pie>
+            <Tooltip content={<CustomTooltip currency={currency} />} />
+            <Legend />
+          </PieChart>
+        </ResponsiveContainer>
+      ) : (
+        <div className="flex items-center justify-center h-full">
+            <p className="text-text-secondary">Không có chi tiêu trong kỳ này.</p>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CategoryBreakdownChart;
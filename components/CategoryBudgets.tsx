@@ -0,0 +1,42 @@
+import React from 'react';
+import { CategoryBudgetStatus } from '../types';
+import { formatMoney } from '../currency';
+
+interface CategoryBudgetsProps {
+  statuses: CategoryBudgetStatus[];
+  currency: string;
+}
+
+const CategoryBudgets: React.FC<CategoryBudgetsProps> = ({ statuses, currency }) => {
+  return (
+    <div className="bg-secondary p-6 rounded-lg shadow-lg">
+      <h3 className="text-lg font-semibold text-text-secondary mb-4">Ngân sách theo danh mục (kỳ này)</h3>
+      {statuses.length > 0 ? (
+        <div className="space-y-4">
+          {statuses.map(status => (
+            <div key={status.category}>
+              <div className="flex justify-between items-center text-sm mb-1">
+                <span className="font-semibold">
+                  {status.category}
+                  {status.threshold >= 100 && <i className="fas fa-exclamation-circle text-red-500 ml-2"></i>}
+                </span>
+                <span className={status.progress > 100 ? 'text-red-500 font-bold' : 'text-text-secondary'}>{Math.round(status.progress)}%</span>
+              </div>
+              <div className="w-full bg-primary rounded-full h-2.5">
+                <div className={`h-2.5 rounded-full ${status.progress > 85 ? 'bg-red-500' : status.progress > 60 ? 'bg-yellow-500' : 'bg-highlight'}`} style={{ width: `${Math.min(status.progress, 100)}%` }} role="progressbar"></div>
+              </div>
+              <div className="flex justify-between text-sm text-text-secondary mt-1">
+                <span>Đã dùng: {formatMoney(status.spent, currency)}</span>
+                <span>Ngân sách: {formatMoney(status.budget, currency)}</span>
+              </div>
+            </div>
+          ))}
+        </div>
+      ) : (
+        <p className="text-text-secondary">Chưa đặt ngân sách cho danh mục nào. Bạn có thể thêm trong phần cài đặt.</p>
+      )}
+    </div>
+  );
+};
+
+export default CategoryBudgets;
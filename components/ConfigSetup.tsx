@@ -1,15 +1,23 @@
 import React, { useState } from 'react';
+import { ConnectionConfig, ConnectionProfile, StorageMode } from '../types';
+import { describeConnection } from '../profiles';
 
 interface ConfigSetupProps {
-  onConnect: (config: { apiKey: string; clientId: string; spreadsheetId: string }) => void;
-  initialSpreadsheetId: string;
+  profiles: ConnectionProfile[];
+  // name is the profile name typed by the user, empty to derive one from the connection
+  onConnect: (config: ConnectionConfig, name: string) => void;
+  onSelectProfile: (profile: ConnectionProfile) => void;
+  onDeleteProfile: (profile: ConnectionProfile) => void;
   isGapiReady: boolean;
+  // Why the saved connections could not be updated, if they could not
+  profileError?: string | null;
 }
 
-const ConfigSetup: React.FC<ConfigSetupProps> = ({ onConnect, initialSpreadsheetId, isGapiReady }) => {
+const ConfigSetup: React.FC<ConfigSetupProps> = ({ profiles, onConnect, onSelectProfile, onDeleteProfile, isGapiReady, profileError }) => {
+  const [profileName, setProfileName] = useState('');
   const [apiKey, setApiKey] = useState('');
   const [clientId, setClientId] = useState('');
-  const [spreadsheetId, setSpreadsheetId] = useState(initialSpreadsheetId);
+  const [spreadsheetId, setSpreadsheetId] = useState('');
   const [error, setError] = useState('');
 
   const handleSubmit = (e: React.FormEvent) => {
@@ -19,9 +27,22 @@ const ConfigSetup: React.FC<ConfigSetupProps> = ({ onConnect, initialSpreadsheet
       return;
     }
     setError('');
-    onConnect({ apiKey, clientId, spreadsheetId });
+    onConnect({ mode: StorageMode.SHEETS, apiKey: apiKey.trim(), clientId: clientId.trim(), spreadsheetId: spreadsheetId.trim() }, profileName.trim());
   };
 
+  const handleUseLocal = () => {
+    setError('');
+    onConnect({ mode: StorageMode.LOCAL }, profileName.trim());
+  };
+
+  const handleDelete = (profile: ConnectionProfile) => {
+    if (window.confirm(`Xóa kết nối "${profile.name}" khỏi trình duyệt này? Dữ liệu trong bảng tính không bị ảnh hưởng.`)) {
+      onDeleteProfile(profile);
+    }
+  };
+
+  const sortedProfiles = [...profiles].sort((a, b) => (b.lastUsedAt || '').localeCompare(a.lastUsedAt || ''));
+
   return (
     <div className="flex items-center justify-center min-h-screen bg-primary">
       <div className="w-full max-w-lg p-8 space-y-6 bg-secondary rounded-lg shadow-lg">
@@ -31,7 +52,44 @@ const ConfigSetup: React.FC<ConfigSetupProps> = ({ onConnect, initialSpreadsheet
             Để truy cập dữ liệu trên Google Sheets, ứng dụng cần bạn cấp quyền thông qua OAuth 2.0. Vui lòng cung cấp các thông tin sau từ dự án Google Cloud của bạn.
           </p>
         </div>
+        {sortedProfiles.length > 0 && (
+          <div className="space-y-2">
+            <h2 className="text-lg font-bold">Kết nối đã lưu</h2>
+            {sortedProfiles.map(profile => (
+              <div key={profile.id} className="flex items-center gap-3 p-3 bg-primary rounded-md">
+                <div className="flex-grow min-w-0">
+                  <p className="font-semibold truncate">{profile.name}</p>
+                  <p className="text-xs text-text-secondary truncate">{describeConnection(profile.connection)}</p>
+                </div>
+                <button
+                  type="button"
+                  onClick={() => onSelectProfile(profile)}
+                  disabled={profile.connection.mode === StorageMode.SHEETS && !isGapiReady}
+                  className="bg-highlight text-primary text-sm font-bold py-1 px-3 rounded-md hover:bg-teal-400 transition duration-300 disabled:bg-accent disabled:cursor-not-allowed"
+                >
+                  Kết nối
+                </button>
+                <button type="button" onClick={() => handleDelete(profile)} className="text-red-500" title="Xóa"><i className="fas fa-trash"></i></button>
+              </div>
+            ))}
+          </div>
+        )}
+        {profileError && <p className="text-red-400 text-sm">{profileError}</p>}
         <form onSubmit={handleSubmit} className="space-y-4">
+          <div>
+            <label htmlFor="profileName" className="block text-sm font-medium text-text-secondary mb-1">
+              Tên kết nối (tùy chọn)
+            </label>
+            <input
+              id="profileName"
+              type="text"
+              value={profileName}
+              onChange={(e) => setProfileName(e.target.value)}
+              className="w-full bg-primary border border-accent rounded-md p-2 text-text-primary focus:outline-none focus:ring-2 focus:ring-highlight"
+              placeholder="Ví dụ: Chi tiêu gia đình"
+            />
+            <p className="text-xs text-text-secondary mt-1">Kết nối được lưu trên trình duyệt này để lần sau không phải nhập lại.</p>
+          </div>
           <div>
             <label htmlFor="apiKey" className="block text-sm font-medium text-text-secondary mb-1">
               Google API Key
@@ -75,7 +133,7 @@ const ConfigSetup: React.FC<ConfigSetupProps> = ({ onConnect, initialSpreadsheet
               value={spreadsheetId}
               onChange={(e) => setSpreadsheetId(e.target.value)}
               className="w-full bg-primary border border-accent rounded-md p-2 text-text-primary focus:outline-none focus:ring-2 focus:ring-highlight"
-              placeholder="1ZY4epEmhscFzkZEXcCUG5HyuxiQIxuiNJx5_RsgE984"
+              placeholder="Phần giữa /d/ và /edit trong đường dẫn bảng tính"
               required
             />
           </div>
@@ -90,7 +148,17 @@ const ConfigSetup: React.FC<ConfigSetupProps> = ({ onConnect, initialSpreadsheet
         </form>
         <div className="text-center text-text-secondary text-sm">
             <p className="font-bold">Quan trọng:</p>
-            <p>Hãy chắc chắn rằng bạn đã tạo hai sheet có tên `Transactions` và `Config` trong file Google Sheets của bạn.</p>
+            <p>Sau khi kết nối, ứng dụng sẽ kiểm tra bảng tính và đề nghị tạo các sheet `Transactions` và `Config` nếu còn thiếu.</p>
+        </div>
+        <div className="border-t border-accent pt-6 text-center space-y-3">
+            <p className="text-text-secondary text-sm">Chưa có dự án Google Cloud? Bạn có thể lưu dữ liệu ngay trên trình duyệt này.</p>
+            <button
+              type="button"
+              onClick={handleUseLocal}
+              className="w-full bg-primary border border-highlight text-highlight font-bold py-3 px-4 rounded-md hover:bg-accent transition duration-300"
+            >
+              <i className="fas fa-database mr-2"></i>Dùng bộ nhớ cục bộ (không cần Google)
+            </button>
         </div>
       </div>
     </div>
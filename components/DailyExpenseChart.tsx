@@ -1,42 +1,70 @@
-
-import React from 'react';
-import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from 'recharts';
-import { DailyData } from '../types';
+import React, { useMemo } from 'react';
+import { ComposedChart, Bar, Line, Area, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from 'recharts';
+import { DailyData, ForecastDay } from '../types';
+import { formatMoney } from '../currency';
 
 interface DailyExpenseChartProps {
   data: DailyData[];
-  month: string;
+  period: string;
+  currency: string;
+  forecast?: ForecastDay[]; // Days still ahead, only for the current period
 }
 
-const CustomTooltip = ({ active, payload, label }: any) => {
+const BAND_KEY = 'band';
+
+const CustomTooltip = ({ active, payload, label, currency }: any) => {
   if (active && payload && payload.length) {
     return (
       <div className="bg-secondary p-4 rounded-lg shadow-lg border border-accent">
         <p className="label font-bold text-highlight">{`Ngày ${label}`}</p>
-        <p className="text-red-400">{`Chi tiêu: ${new Intl.NumberFormat('vi-VN', { style: 'currency', currency: 'VND' }).format(payload[0].value)}`}</p>
+        {payload.map((entry: any) => (
+          <p key={entry.dataKey} style={{ color: entry.color }}>
+            {entry.dataKey === BAND_KEY
+              ? `${entry.name}: ${formatMoney(entry.value[0], currency)} – ${formatMoney(entry.value[1], currency)}`
+              : `${entry.name}: ${formatMoney(entry.value, currency)}`}
+          </p>
+        ))}
       </div>
     );
   }
   return null;
 };
 
-const DailyExpenseChart: React.FC<DailyExpenseChartProps> = ({ data, month }) => {
+const DailyExpenseChart: React.FC<DailyExpenseChartProps> = ({ data, period, currency, forecast = [] }) => {
+  // Expenses already entered for a day ahead (e.g. a booked bill) share its row with the forecast
+  const chartData = useMemo(() => {
+    const rows = new Map<string, { [key: string]: string | number | number[] }>();
+    data.forEach(item => rows.set(item.date, { day: item.day, expense: item.expense }));
+    forecast.forEach(item => rows.set(item.date, {
+      ...(rows.get(item.date) || { day: item.day }),
+      expected: item.expected,
+      [BAND_KEY]: [item.low, item.high],
+    }));
+    return Array.from(rows.keys()).sort().map(date => rows.get(date)!);
+  }, [data, forecast]);
+
   return (
     <div className="bg-secondary p-6 rounded-lg shadow-lg w-full h-96">
-      <h3 className="text-xl font-bold mb-4 text-text-primary">Chi tiêu trong tháng {month}</h3>
-      {data.length > 0 ? (
+      <h3 className="text-xl font-bold mb-4 text-text-primary">Chi tiêu trong kỳ {period}</h3>
+      {chartData.length > 0 ? (
         <ResponsiveContainer width="100%" height="100%">
-          <BarChart data={data} margin={{ top: 5, right: 20, left: 50, bottom: 5 }}>
+          <ComposedChart data={chartData} margin={{ top: 5, right: 20, left: 50, bottom: 5 }}>
             <CartesianGrid strokeDasharray="3 3" stroke="#4a5568" />
             <XAxis dataKey="day" stroke="#a0aec0" />
             <YAxis stroke="#a0aec0" tickFormatter={(value) => new Intl.NumberFormat('vi-VN', { notation: 'compact', compactDisplay: 'short' }).format(value as number)} />
-            <Tooltip content={<CustomTooltip />} cursor={{ fill: 'rgba(74, 85, 104, 0.5)' }}/>
+            <Tooltip content={<CustomTooltip currency={currency} />} cursor={{ fill: 'rgba(74, 85, 104, 0.5)' }}/>
             <Bar dataKey="expense" fill="#f56565" name="Chi tiêu" radius={[4, 4, 0, 0]} />
-          </BarChart>
+            {forecast.length > 0 && (
+              <Area type="monotone" dataKey={BAND_KEY} stroke="none" fill="#f6ad55" fillOpacity={0.2} name="Khoảng dự báo" isAnimationActive={false} />
+            )}
+            {forecast.length > 0 && (
+              <Line type="monotone" dataKey="expected" stroke="#f6ad55" strokeDasharray="5 5" dot={false} name="Dự báo" isAnimationActive={false} />
+            )}
+          </ComposedChart>
         </ResponsiveContainer>
       ) : (
         <div className="flex items-center justify-center h-full">
-            <p className="text-text-secondary">Không có chi tiêu trong tháng này.</p>
+            <p className="text-text-secondary">Không có chi tiêu trong kỳ này.</p>
         </div>
       )}
     </div>
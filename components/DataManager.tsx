@@ -0,0 +1,345 @@
+import React, { useMemo, useState } from 'react';
+import { Transaction, TransactionType, Account, PeriodSettings } from '../types';
+import { formatMoney, DEFAULT_BASE_CURRENCY } from '../currency';
+import { parseDateKey } from '../recurring';
+import {
+  ColumnMapping, DateFormat, ImportedRow, ParsedStatement,
+  parseCsv, parseOfx, guessColumnMapping, mapCsvRows, findDuplicates, createImportedTransaction,
+} from '../importer';
+import {
+  BackupBundle, ExportFilter,
+  filterTransactions, transactionsToCsv, transactionsToJson, createReportWorkbook, parseBackupBundle, getRestorableConfig, downloadFile,
+} from '../exporter';
+
+interface DataManagerProps {
+  transactions: Transaction[];
+  accounts: Account[];
+  currencies: string[];
+  // Same transactions with amounts converted to the base currency, for the report aggregates
+  reportTransactions: Transaction[];
+  baseCurrency: string;
+  periodSettings: PeriodSettings;
+  getTransactionCurrency: (tx: Transaction) => string;
+  // Resolves to true once the batch has been saved
+  onImport: (transactions: Transaction[]) => Promise<boolean>;
+  onCreateBackup: () => Promise<BackupBundle | null>;
+  onRestoreBackup: (bundle: BackupBundle) => Promise<boolean>;
+}
+
+type ImportStep = 'upload' | 'mapping' | 'preview';
+
+const MAPPING_FIELDS: { field: keyof ColumnMapping, label: string }[] = [
+  { field: 'date', label: 'Ngày' },
+  { field: 'description', label: 'Mô tả' },
+  { field: 'amount', label: 'Số tiền (âm là chi)' },
+  { field: 'debit', label: 'Ghi nợ (tiền ra)' },
+  { field: 'credit', label: 'Ghi có (tiền vào)' },
+  { field: 'category', label: 'Danh mục' },
+  { field: 'tags', label: 'Thẻ' },
+];
+
+const inputClassName = 'w-full bg-primary border border-accent rounded-md p-2 focus:outline-none focus:ring-2 focus:ring-highlight';
+
+// Date stamp for exported file names
+const fileStamp = () => new Date().toISOString().substring(0, 10);
+
+const DataManager: React.FC<DataManagerProps> = ({ transactions, accounts, currencies, reportTransactions, baseCurrency, periodSettings, getTransactionCurrency, onImport, onCreateBackup, onRestoreBackup }) => {
+  const [step, setStep] = useState<ImportStep>('upload');
+  const [fileName, setFileName] = useState('');
+  const [csvRows, setCsvRows] = useState<string[][]>([]);
+  const [hasHeader, setHasHeader] = useState(true);
+  const [dateFormat, setDateFormat] = useState<DateFormat>('DMY');
+  const [mapping, setMapping] = useState<ColumnMapping>(() => guessColumnMapping([]));
+  const [statement, setStatement] = useState<ParsedStatement>({ rows: [], errors: [] });
+  const [selected, setSelected] = useState<Set<number>>(new Set());
+  const [accountId, setAccountId] = useState(accounts[0]?.id || '');
+  const [currency, setCurrency] = useState('');
+  const [isImporting, setIsImporting] = useState(false);
+  const [importError, setImportError] = useState('');
+  const [exportFilter, setExportFilter] = useState<ExportFilter>({ from: '', to: '', type: '' });
+  const [restoreErrors, setRestoreErrors] = useState<string[]>([]);
+  const [isRestoring, setIsRestoring] = useState(false);
+
+  const duplicates = useMemo(() => findDuplicates(statement.rows, transactions), [statement, transactions]);
+
+  const selectedAccount = accounts.find(account => account.id === accountId);
+
+  const handleReset = () => {
+    setStep('upload');
+    setFileName('');
+    setCsvRows([]);
+    setStatement({ rows: [], errors: [] });
+    setSelected(new Set());
+    setImportError('');
+  };
+
+  // Likely duplicates start unchecked; everything else is imported unless the user unticks it
+  const showPreview = (parsed: ParsedStatement) => {
+    setStatement(parsed);
+    const parsedDuplicates = findDuplicates(parsed.rows, transactions);
+    setSelected(new Set(parsed.rows.map((_, index) => index).filter(index => !parsedDuplicates[index])));
+    setStep('preview');
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    setImportError('');
+    setFileName(file.name);
+    try {
+      const text = await file.text();
+      if (/\.(ofx|qfx)$/i.test(file.name) || /<OFX>/i.test(text)) {
+        showPreview(parseOfx(text));
+        return;
+      }
+      const rows = parseCsv(text);
+      if (rows.length === 0) {
+        setImportError('Tệp không có dữ liệu.');
+        return;
+      }
+      setCsvRows(rows);
+      setMapping(guessColumnMapping(rows[0]));
+      setStep('mapping');
+    } catch (err) {
+      console.error("Error reading import file:", err);
+      setImportError('Không thể đọc tệp. Vui lòng chọn tệp CSV, OFX hoặc QFX.');
+    }
+  };
+
+  const handleMappingChange = (field: keyof ColumnMapping, value: string) => {
+    setMapping(prev => ({ ...prev, [field]: parseInt(value, 10) }));
+  };
+
+  const handleApplyMapping = () => {
+    if (mapping.date < 0 || (mapping.amount < 0 && mapping.debit < 0 && mapping.credit < 0)) {
+      setImportError('Cần chọn cột ngày và cột số tiền (hoặc ghi nợ/ghi có).');
+      return;
+    }
+    setImportError('');
+    showPreview(mapCsvRows(csvRows, mapping, dateFormat, hasHeader));
+  };
+
+  const toggleRow = (index: number) => {
+    setSelected(prev => {
+      const next = new Set(prev);
+      if (next.has(index)) next.delete(index);
+      else next.add(index);
+      return next;
+    });
+  };
+
+  const handleImport = async () => {
+    if (!selectedAccount || selected.size === 0) return;
+    const batchTime = new Date().getTime();
+    const rows: ImportedRow[] = statement.rows.filter((_, index) => selected.has(index));
+    const imported = rows.map((row, index) =>
+      createImportedTransaction(row, selectedAccount.id, currency || selectedAccount.currency, `txn-${batchTime}-${index}`));
+
+    setIsImporting(true);
+    const saved = await onImport(imported);
+    setIsImporting(false);
+    if (saved) {
+      alert(`Đã nhập ${imported.length} giao dịch.`);
+      handleReset();
+    }
+  };
+
+  const filteredTransactions = useMemo(() => filterTransactions(transactions, exportFilter), [transactions, exportFilter]);
+
+  const handleExportFilterChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
+    const { name, value } = e.target;
+    setExportFilter(prev => ({ ...prev, [name]: value }));
+  };
+
+  const handleExportCsv = () => {
+    downloadFile(`giao-dich-${fileStamp()}.csv`, transactionsToCsv(filteredTransactions, getTransactionCurrency), 'text/csv;charset=utf-8');
+  };
+
+  const handleExportJson = () => {
+    downloadFile(`giao-dich-${fileStamp()}.json`, transactionsToJson(filteredTransactions), 'application/json');
+  };
+
+  const handleExportReport = () => {
+    const filteredIds = new Set(filteredTransactions.map(tx => tx.id));
+    const filteredReport = reportTransactions.filter(tx => filteredIds.has(tx.id));
+    downloadFile(`bao-cao-${fileStamp()}.xlsx`, createReportWorkbook(filteredTransactions, filteredReport, getTransactionCurrency, baseCurrency, periodSettings));
+  };
+
+  const handleBackup = async () => {
+    const bundle = await onCreateBackup();
+    if (bundle) downloadFile(`sao-luu-${fileStamp()}.json`, JSON.stringify(bundle, null, 2), 'application/json');
+  };
+
+  const handleRestoreFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    const { bundle, errors } = parseBackupBundle(await file.text());
+    setRestoreErrors(errors);
+    if (!bundle) return;
+    if (!window.confirm(`Khôi phục ${bundle.transactions.length} giao dịch, ${Object.keys(getRestorableConfig(bundle.config)).length} mục cấu hình, ${bundle.recurring.length} mẫu định kỳ, ${bundle.rates.length} tỷ giá, ${bundle.goals.length} mục tiêu tiết kiệm và ${bundle.debts.length} khoản vay? Giao dịch đã có sẽ được giữ nguyên, cấu hình sẽ bị ghi đè.`)) return;
+    setIsRestoring(true);
+    const restored = await onRestoreBackup(bundle);
+    setIsRestoring(false);
+    if (restored) alert('Đã khôi phục dữ liệu từ bản sao lưu.');
+  };
+
+  const columnOptions = (csvRows[0] || []).map((header, index) => ({
+    index,
+    label: hasHeader ? `${index + 1}. ${header}` : `Cột ${index + 1} (${header})`,
+  }));
+
+  return (
+    <div className="space-y-8">
+      <div className="bg-secondary p-6 rounded-lg shadow-lg">
+        <h3 className="text-xl font-bold mb-4">Nhập sao kê ngân hàng</h3>
+
+        {step === 'upload' && (
+          <div>
+            <p className="text-text-secondary mb-3">Chọn tệp CSV hoặc sao kê OFX/QFX tải từ ngân hàng.</p>
+            <input type="file" accept=".csv,.txt,.ofx,.qfx" onChange={handleFileChange} className={inputClassName} />
+          </div>
+        )}
+
+        {step === 'mapping' && (
+          <div className="space-y-4">
+            <p className="text-text-secondary text-sm">{fileName}: {csvRows.length} dòng. Chọn cột tương ứng với từng trường.</p>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+              {MAPPING_FIELDS.map(({ field, label }) => (
+                <div key={field}>
+                  <label htmlFor={`map-${field}`} className="block text-xs text-text-secondary mb-1">{label}</label>
+                  <select id={`map-${field}`} value={mapping[field]} onChange={(e) => handleMappingChange(field, e.target.value)} className={inputClassName}>
+                    <option value={-1}>— Không dùng —</option>
+                    {columnOptions.map(option => (<option key={option.index} value={option.index}>{option.label}</option>))}
+                  </select>
+                </div>
+              ))}
+              <div>
+                <label htmlFor="import-date-format" className="block text-xs text-text-secondary mb-1">Định dạng ngày</label>
+                <select id="import-date-format" value={dateFormat} onChange={(e) => setDateFormat(e.target.value as DateFormat)} className={inputClassName}>
+                  <option value="DMY">Ngày/Tháng/Năm</option>
+                  <option value="MDY">Tháng/Ngày/Năm</option>
+                  <option value="YMD">Năm-Tháng-Ngày</option>
+                </select>
+              </div>
+              <label className="flex items-center gap-2 text-sm mt-5">
+                <input type="checkbox" checked={hasHeader} onChange={(e) => setHasHeader(e.target.checked)} />
+                Dòng đầu tiên là tiêu đề
+              </label>
+            </div>
+            <div className="flex gap-3">
+              <button type="button" onClick={handleApplyMapping} className="flex-grow bg-highlight text-primary font-bold py-2 px-4 rounded-md hover:bg-teal-400 transition duration-300">Xem trước</button>
+              <button type="button" onClick={handleReset} className="bg-accent text-text-primary font-bold py-2 px-4 rounded-md hover:bg-gray-600 transition duration-300">Hủy</button>
+            </div>
+          </div>
+        )}
+
+        {step === 'preview' && (
+          <div className="space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+              <div>
+                <label htmlFor="import-account" className="block text-xs text-text-secondary mb-1">Nhập vào tài khoản</label>
+                <select id="import-account" value={accountId} onChange={(e) => setAccountId(e.target.value)} className={inputClassName}>
+                  {accounts.map(account => (<option key={account.id} value={account.id}>{account.name}</option>))}
+                </select>
+              </div>
+              <div>
+                <label htmlFor="import-currency" className="block text-xs text-text-secondary mb-1">Tiền tệ (nếu tệp không ghi rõ)</label>
+                <select id="import-currency" value={currency} onChange={(e) => setCurrency(e.target.value)} className={inputClassName}>
+                  <option value="">Tiền tệ của tài khoản</option>
+                  {currencies.map(code => (<option key={code} value={code}>{code}</option>))}
+                </select>
+              </div>
+            </div>
+
+            {statement.errors.length > 0 && (
+              <div className="text-yellow-400 text-sm space-y-1">
+                {statement.errors.map((message, index) => (<p key={index}><i className="fas fa-exclamation-triangle mr-2"></i>{message}</p>))}
+              </div>
+            )}
+
+            <div className="max-h-80 overflow-y-auto space-y-2">
+              {statement.rows.map((row, index) => (
+                <label key={index} className={`flex items-center gap-3 p-2 bg-primary rounded-md text-sm ${duplicates[index] ? 'border border-yellow-500' : ''}`}>
+                  <input type="checkbox" checked={selected.has(index)} onChange={() => toggleRow(index)} />
+                  <span className="text-text-secondary w-24">{parseDateKey(row.date).toLocaleDateString('vi-VN')}</span>
+                  <span className="flex-grow">
+                    {row.description}
+                    {duplicates[index] && (
+                      <span className="block text-xs text-yellow-400">
+                        <i className="fas fa-copy mr-1"></i>Có thể trùng: {duplicates[index]!.description}
+                      </span>
+                    )}
+                  </span>
+                  <span className={row.amount < 0 ? 'text-red-400' : 'text-green-400'}>
+                    {formatMoney(row.amount, row.currency || currency || selectedAccount?.currency || DEFAULT_BASE_CURRENCY)}
+                  </span>
+                </label>
+              ))}
+              {statement.rows.length === 0 && (
+                <p className="text-text-secondary">Không có dòng nào hợp lệ để nhập.</p>
+              )}
+            </div>
+
+            <div className="flex gap-3">
+              <button type="button" onClick={handleImport} disabled={isImporting || selected.size === 0 || !selectedAccount} className="flex-grow bg-highlight text-primary font-bold py-2 px-4 rounded-md hover:bg-teal-400 transition duration-300 disabled:opacity-50">
+                {isImporting ? 'Đang nhập...' : `Nhập ${selected.size} giao dịch`}
+              </button>
+              <button type="button" onClick={handleReset} className="bg-accent text-text-primary font-bold py-2 px-4 rounded-md hover:bg-gray-600 transition duration-300">Hủy</button>
+            </div>
+          </div>
+        )}
+
+        {importError && <p className="text-red-400 text-sm mt-3">{importError}</p>}
+      </div>
+
+      <div className="bg-secondary p-6 rounded-lg shadow-lg">
+        <h3 className="text-xl font-bold mb-4">Xuất & sao lưu dữ liệu</h3>
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+          <div>
+            <label htmlFor="export-from" className="block text-xs text-text-secondary mb-1">Từ ngày</label>
+            <input type="date" id="export-from" name="from" value={exportFilter.from} onChange={handleExportFilterChange} className={inputClassName} />
+          </div>
+          <div>
+            <label htmlFor="export-to" className="block text-xs text-text-secondary mb-1">Đến ngày</label>
+            <input type="date" id="export-to" name="to" value={exportFilter.to} onChange={handleExportFilterChange} className={inputClassName} />
+          </div>
+          <div>
+            <label htmlFor="export-type" className="block text-xs text-text-secondary mb-1">Loại</label>
+            <select id="export-type" name="type" value={exportFilter.type} onChange={handleExportFilterChange} className={inputClassName}>
+              <option value="">Tất cả</option>
+              <option value={TransactionType.EXPENSE}>Chi tiêu</option>
+              <option value={TransactionType.INCOME}>Thu nhập</option>
+              <option value={TransactionType.TRANSFER}>Chuyển khoản</option>
+            </select>
+          </div>
+        </div>
+        <p className="text-sm text-text-secondary mt-2">{filteredTransactions.length} giao dịch phù hợp.</p>
+        <div className="flex flex-wrap gap-3 mt-3">
+          <button type="button" onClick={handleExportCsv} disabled={filteredTransactions.length === 0} className="bg-accent text-text-primary font-bold py-2 px-4 rounded-md hover:bg-gray-600 transition duration-300 disabled:opacity-50"><i className="fas fa-file-csv mr-2"></i>CSV</button>
+          <button type="button" onClick={handleExportJson} disabled={filteredTransactions.length === 0} className="bg-accent text-text-primary font-bold py-2 px-4 rounded-md hover:bg-gray-600 transition duration-300 disabled:opacity-50"><i className="fas fa-file-code mr-2"></i>JSON</button>
+          <button type="button" onClick={handleExportReport} disabled={filteredTransactions.length === 0} className="bg-accent text-text-primary font-bold py-2 px-4 rounded-md hover:bg-gray-600 transition duration-300 disabled:opacity-50"><i className="fas fa-file-excel mr-2"></i>Báo cáo XLSX</button>
+        </div>
+
+        <hr className="border-accent my-6" />
+        <p className="text-text-secondary text-sm mb-3">Bản sao lưu chứa toàn bộ giao dịch, cấu hình, giao dịch định kỳ và tỷ giá.</p>
+        <div className="flex flex-wrap gap-3 items-center">
+          <button type="button" onClick={handleBackup} className="bg-highlight text-primary font-bold py-2 px-4 rounded-md hover:bg-teal-400 transition duration-300"><i className="fas fa-download mr-2"></i>Tạo bản sao lưu</button>
+          <label className={`bg-accent text-text-primary font-bold py-2 px-4 rounded-md hover:bg-gray-600 transition duration-300 cursor-pointer ${isRestoring ? 'opacity-50 pointer-events-none' : ''}`}>
+            <i className="fas fa-upload mr-2"></i>{isRestoring ? 'Đang khôi phục...' : 'Khôi phục'}
+            <input type="file" accept=".json,application/json" onChange={handleRestoreFile} className="hidden" />
+          </label>
+        </div>
+        {restoreErrors.length > 0 && (
+          <div className="text-red-400 text-sm mt-3 space-y-1 max-h-40 overflow-y-auto">
+            <p className="font-semibold">Bản sao lưu không hợp lệ, chưa có dữ liệu nào được ghi:</p>
+            {restoreErrors.map((message, index) => (<p key={index}>{message}</p>))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default DataManager;
@@ -0,0 +1,192 @@
+import React, { useState } from 'react';
+import { Debt, DebtDirection, DebtStatus } from '../types';
+import { formatMoney } from '../currency';
+import { parseDateKey } from '../recurring';
+
+interface DebtManagerProps {
+  debts: DebtStatus[];
+  currencies: string[];
+  baseCurrency: string;
+  today: string; // "YYYY-MM-DD"
+  onSave: (debt: Debt) => void;
+  onDelete: (debt: Debt) => void;
+}
+
+const inputClassName = 'w-full bg-primary border border-accent rounded-md p-2 focus:outline-none focus:ring-2 focus:ring-highlight';
+
+const createEmptyForm = (today: string, currency: string) => ({
+  name: '',
+  counterparty: '',
+  direction: DebtDirection.BORROWED,
+  principal: '',
+  currency,
+  annualRate: '0',
+  termMonths: '12',
+  startDate: today,
+});
+
+const formatDate = (key: string) => parseDateKey(key).toLocaleDateString('vi-VN');
+
+const DebtManager: React.FC<DebtManagerProps> = ({ debts, currencies, baseCurrency, today, onSave, onDelete }) => {
+  const [form, setForm] = useState(() => createEmptyForm(today, baseCurrency));
+  const [editing, setEditing] = useState<Debt | null>(null);
+  const [formError, setFormError] = useState('');
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
+    const { name, value } = e.target;
+    setForm(prev => ({ ...prev, [name]: value }));
+  };
+
+  const handleEdit = (debt: Debt) => {
+    setEditing(debt);
+    setFormError('');
+    setForm({
+      name: debt.name,
+      counterparty: debt.counterparty,
+      direction: debt.direction,
+      principal: debt.principal.toString(),
+      currency: debt.currency,
+      annualRate: debt.annualRate.toString(),
+      termMonths: debt.termMonths.toString(),
+      startDate: debt.startDate,
+    });
+  };
+
+  const handleReset = () => {
+    setEditing(null);
+    setFormError('');
+    setForm(createEmptyForm(today, baseCurrency));
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const principal = parseFloat(form.principal);
+    const annualRate = parseFloat(form.annualRate);
+    const termMonths = parseInt(form.termMonths, 10);
+    if (!form.name.trim() || !form.counterparty.trim() || isNaN(principal) || principal <= 0 || !form.startDate) {
+      setFormError('Vui lòng nhập tên, người vay/cho vay, số tiền gốc và ngày bắt đầu.');
+      return;
+    }
+    if (isNaN(annualRate) || annualRate < 0 || !(termMonths >= 1)) {
+      setFormError('Lãi suất hoặc kỳ hạn không hợp lệ.');
+      return;
+    }
+    onSave({
+      id: editing ? editing.id : `debt-${new Date().getTime()}`,
+      name: form.name.trim(),
+      counterparty: form.counterparty.trim(),
+      direction: form.direction,
+      principal,
+      currency: form.currency || baseCurrency,
+      annualRate,
+      termMonths,
+      startDate: form.startDate,
+      createdAt: editing ? editing.createdAt : new Date().toISOString(),
+    });
+    handleReset();
+  };
+
+  return (
+    <div className="bg-secondary p-6 rounded-lg shadow-lg">
+      <h3 className="text-xl font-bold mb-4">Khoản vay và cho vay</h3>
+
+      <div className="space-y-3 mb-6">
+        {debts.map(({ debt, schedule, repaid, outstanding, nextInstallment }) => (
+          <div key={debt.id} className="p-3 bg-primary rounded-md">
+            <div className="flex justify-between items-start">
+              <div>
+                <p className="font-semibold">
+                  {debt.name}
+                  <span className={`ml-2 text-xs ${debt.direction === DebtDirection.BORROWED ? 'text-red-400' : 'text-green-400'}`}>
+                    {debt.direction === DebtDirection.BORROWED ? `Vay của ${debt.counterparty}` : `Cho ${debt.counterparty} vay`}
+                  </span>
+                </p>
+                <p className="text-sm text-text-secondary">
+                  Gốc {formatMoney(debt.principal, debt.currency)} · {debt.annualRate}%/năm · {debt.termMonths} tháng từ {formatDate(debt.startDate)}
+                </p>
+              </div>
+              <div className="flex gap-3">
+                <button onClick={() => setExpandedId(expandedId === debt.id ? null : debt.id)} className="text-text-secondary" title="Lịch trả nợ"><i className="fas fa-list"></i></button>
+                <button onClick={() => handleEdit(debt)} className="text-highlight" title="Sửa"><i className="fas fa-pen"></i></button>
+                <button onClick={() => onDelete(debt)} className="text-red-500" title="Xóa"><i className="fas fa-trash"></i></button>
+              </div>
+            </div>
+            <div className="flex flex-wrap justify-between gap-2 text-sm mt-2">
+              <span>Còn lại: <span className={`font-bold ${outstanding > 0 ? (debt.direction === DebtDirection.BORROWED ? 'text-red-400' : 'text-green-400') : 'text-text-secondary'}`}>{formatMoney(outstanding, debt.currency)}</span></span>
+              <span className="text-text-secondary">Đã trả: {formatMoney(repaid, debt.currency)}</span>
+              {nextInstallment ? (
+                <span className="text-text-secondary">Kỳ tới {formatDate(nextInstallment.date)}: {formatMoney(nextInstallment.payment, debt.currency)}</span>
+              ) : outstanding > 0 ? (
+                <span className="text-yellow-400">Đã quá kỳ hạn</span>
+              ) : (
+                <span className="text-green-400"><i className="fas fa-check mr-1"></i>Đã tất toán</span>
+              )}
+            </div>
+            {expandedId === debt.id && (
+              <div className="overflow-x-auto max-h-64 overflow-y-auto mt-3">
+                <table className="w-full text-sm text-left">
+                  <thead className="text-text-secondary border-b border-accent">
+                    <tr>
+                      <th className="py-1 pr-4">Kỳ</th>
+                      <th className="py-1 pr-4">Ngày</th>
+                      <th className="py-1 pr-4 text-right">Phải trả</th>
+                      <th className="py-1 pr-4 text-right">Gốc</th>
+                      <th className="py-1 pr-4 text-right">Lãi</th>
+                      <th className="py-1 text-right">Dư nợ</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {schedule.map(row => (
+                      <tr key={row.number} className={`border-b border-accent/50 ${row.date <= today ? 'text-text-secondary' : ''}`}>
+                        <td className="py-1 pr-4">{row.number}</td>
+                        <td className="py-1 pr-4 whitespace-nowrap">{formatDate(row.date)}</td>
+                        <td className="py-1 pr-4 text-right">{formatMoney(row.payment, debt.currency)}</td>
+                        <td className="py-1 pr-4 text-right">{formatMoney(row.principal, debt.currency)}</td>
+                        <td className="py-1 pr-4 text-right">{formatMoney(row.interest, debt.currency)}</td>
+                        <td className="py-1 text-right">{formatMoney(row.balance, debt.currency)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </div>
+        ))}
+        {debts.length === 0 && (
+          <p className="text-text-secondary">Chưa có khoản vay nào. Các khoản trả nợ được liên kết khi thêm giao dịch chi tiêu (đi vay) hoặc thu nhập (cho vay).</p>
+        )}
+      </div>
+
+      <form onSubmit={handleSubmit} className="space-y-3">
+        <h4 className="font-semibold text-text-secondary">{editing ? 'Sửa khoản vay' : 'Thêm khoản vay'}</h4>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+          <input type="text" name="name" value={form.name} onChange={handleChange} placeholder="Tên, ví dụ: Trả góp điện thoại" className={inputClassName} />
+          <input type="text" name="counterparty" value={form.counterparty} onChange={handleChange} placeholder="Người vay / cho vay" className={inputClassName} />
+          <select name="direction" value={form.direction} onChange={handleChange} className={inputClassName}>
+            <option value={DebtDirection.BORROWED}>Đi vay (mình nợ)</option>
+            <option value={DebtDirection.LENT}>Cho vay (người khác nợ mình)</option>
+          </select>
+          <div className="flex gap-2">
+            <input type="number" name="principal" value={form.principal} onChange={handleChange} placeholder="Số tiền gốc" className={inputClassName} />
+            <select name="currency" aria-label="Tiền tệ" value={form.currency} onChange={handleChange} className="bg-primary border border-accent rounded-md p-2 focus:outline-none focus:ring-2 focus:ring-highlight">
+              {currencies.map(currency => (<option key={currency} value={currency}>{currency}</option>))}
+            </select>
+          </div>
+          <input type="number" name="annualRate" step="any" value={form.annualRate} onChange={handleChange} placeholder="Lãi suất (%/năm)" className={inputClassName} />
+          <input type="number" name="termMonths" value={form.termMonths} onChange={handleChange} placeholder="Kỳ hạn (tháng)" className={inputClassName} />
+          <input type="date" name="startDate" value={form.startDate} onChange={handleChange} className={inputClassName} />
+        </div>
+        {formError && <p className="text-red-400 text-sm">{formError}</p>}
+        <div className="flex gap-3">
+          <button type="submit" className="flex-grow bg-highlight text-primary font-bold py-2 px-4 rounded-md hover:bg-teal-400 transition duration-300">{editing ? 'Lưu thay đổi' : 'Thêm khoản vay'}</button>
+          {editing && (
+            <button type="button" onClick={handleReset} className="bg-accent text-text-primary font-bold py-2 px-4 rounded-md hover:bg-gray-600 transition duration-300">Hủy</button>
+          )}
+        </div>
+      </form>
+    </div>
+  );
+};
+
+export default DebtManager;
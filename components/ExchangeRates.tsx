@@ -0,0 +1,84 @@
+import React, { useState } from 'react';
+import { ExchangeRate } from '../types';
+import { parseDateKey } from '../recurring';
+
+interface ExchangeRatesProps {
+  rates: ExchangeRate[];
+  currencies: string[];
+  baseCurrency: string;
+  missingCurrencies: string[]; // Currencies in use that cannot be converted to the base currency
+  today: string; // "YYYY-MM-DD"
+  onSave: (rate: ExchangeRate) => void;
+  onDelete: (rate: ExchangeRate) => void;
+}
+
+const inputClassName = 'w-full bg-primary border border-accent rounded-md p-2 focus:outline-none focus:ring-2 focus:ring-highlight';
+
+const ExchangeRates: React.FC<ExchangeRatesProps> = ({ rates, currencies, baseCurrency, missingCurrencies, today, onSave, onDelete }) => {
+  const [form, setForm] = useState({ date: today, from: 'USD', rate: '' });
+  const [formError, setFormError] = useState('');
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
+    const { name, value } = e.target;
+    setForm(prev => ({ ...prev, [name]: value }));
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const rate = parseFloat(form.rate);
+    const from = form.from.trim().toUpperCase();
+    if (!form.date || !/^[A-Z]{3}$/.test(from) || isNaN(rate) || rate <= 0) {
+      setFormError('Vui lòng nhập ngày, mã tiền tệ (3 chữ cái) và tỷ giá hợp lệ.');
+      return;
+    }
+    if (from === baseCurrency) {
+      setFormError('Tiền tệ này đã là tiền tệ gốc.');
+      return;
+    }
+    setFormError('');
+    onSave({ id: `rate-${new Date().getTime()}`, date: form.date, from, to: baseCurrency, rate });
+    setForm(prev => ({ ...prev, rate: '' }));
+  };
+
+  const sortedRates = [...rates].sort((a, b) => b.date.localeCompare(a.date) || a.from.localeCompare(b.from));
+
+  return (
+    <div className="bg-secondary p-6 rounded-lg shadow-lg">
+      <h3 className="text-xl font-bold mb-4">Tỷ giá</h3>
+      {missingCurrencies.length > 0 && (
+        <p className="text-yellow-400 text-sm mb-4">
+          <i className="fas fa-exclamation-triangle mr-2"></i>
+          Chưa có tỷ giá {missingCurrencies.map(currency => `${currency}→${baseCurrency}`).join(', ')}; các số tiền này đang được tính 1:1.
+        </p>
+      )}
+
+      <div className="space-y-2 mb-6 max-h-64 overflow-y-auto">
+        {sortedRates.map(rate => (
+          <div key={rate.id} className="flex justify-between items-center p-2 bg-primary rounded-md text-sm">
+            <span className="text-text-secondary">{parseDateKey(rate.date).toLocaleDateString('vi-VN')}</span>
+            <span>1 {rate.from} = {new Intl.NumberFormat('vi-VN').format(rate.rate)} {rate.to}</span>
+            <button onClick={() => onDelete(rate)} className="text-red-500" title="Xóa"><i className="fas fa-trash"></i></button>
+          </div>
+        ))}
+        {rates.length === 0 && (
+          <p className="text-text-secondary">Chưa có tỷ giá nào. Mỗi giao dịch được quy đổi theo tỷ giá gần nhất trước ngày giao dịch.</p>
+        )}
+      </div>
+
+      <form onSubmit={handleSubmit} className="space-y-3">
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+          <input type="date" name="date" value={form.date} onChange={handleChange} className={inputClassName} />
+          <input type="text" name="from" value={form.from} onChange={handleChange} list="exchange-rate-currencies" placeholder="Mã tiền tệ, ví dụ: USD" className={inputClassName} />
+          <input type="number" name="rate" step="any" value={form.rate} onChange={handleChange} placeholder={`Giá trị bằng ${baseCurrency}`} className={inputClassName} />
+        </div>
+        <datalist id="exchange-rate-currencies">
+          {currencies.filter(currency => currency !== baseCurrency).map(currency => (<option key={currency} value={currency} />))}
+        </datalist>
+        {formError && <p className="text-red-400 text-sm">{formError}</p>}
+        <button type="submit" className="w-full bg-highlight text-primary font-bold py-2 px-4 rounded-md hover:bg-teal-400 transition duration-300">Thêm tỷ giá</button>
+      </form>
+    </div>
+  );
+};
+
+export default ExchangeRates;
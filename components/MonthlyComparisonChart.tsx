@@ -1,19 +1,30 @@
-
-import React from 'react';
-import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
+import React, { useMemo, useState } from 'react';
+import { ComposedChart, Bar, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
 import { MonthlyData } from '../types';
+import { formatMoney } from '../currency';
+import { addMonthsToKey } from '../period';
 
 interface MonthlyComparisonChartProps {
-  data: MonthlyData[];
+  data: MonthlyData[]; // Continuous, oldest period first
+  currency: string; // Every amount is already converted to this currency
 }
 
-const CustomTooltip = ({ active, payload, label }: any) => {
+// "rolling-N" shows the last N months, "year-YYYY" the periods starting in that year
+const ROLLING_WINDOWS = [3, 6, 12];
+const DEFAULT_RANGE = 'rolling-12';
+
+const RATE_KEY = 'savingsRate';
+
+const CustomTooltip = ({ active, payload, label, currency }: any) => {
   if (active && payload && payload.length) {
     return (
       <div className="bg-secondary p-4 rounded-lg shadow-lg border border-accent">
-        <p className="label font-bold text-highlight">{`Tháng ${label}`}</p>
-        <p className="text-green-400">{`Thu nhập: ${new Intl.NumberFormat('vi-VN', { style: 'currency', currency: 'VND' }).format(payload[0].value)}`}</p>
-        <p className="text-red-400">{`Chi tiêu: ${new Intl.NumberFormat('vi-VN', { style: 'currency', currency: 'VND' }).format(payload[1].value)}`}</p>
+        <p className="label font-bold text-highlight">{`Kỳ ${label}`}</p>
+        {payload.filter((entry: any) => entry.value !== null && entry.value !== undefined).map((entry: any) => (
+          <p key={entry.dataKey} style={{ color: entry.color }}>
+            {`${entry.name}: ${entry.dataKey === RATE_KEY ? `${(entry.value as number).toFixed(1)}%` : formatMoney(entry.value, currency)}`}
+          </p>
+        ))}
       </div>
     );
   }
@@ -21,23 +32,76 @@ const CustomTooltip = ({ active, payload, label }: any) => {
   return null;
 };
 
+const selectRange = (data: MonthlyData[], range: string): MonthlyData[] => {
+  const [kind, value] = range.split('-');
+  if (kind === 'year') return data.filter(item => item.key.startsWith(`${value}-`));
+  if (data.length === 0) return data;
+  const windowStart = addMonthsToKey(data[data.length - 1].key, -parseInt(value, 10));
+  return data.filter(item => item.key > windowStart);
+};
+
+const compactNumber = (value: number) => new Intl.NumberFormat('vi-VN', { notation: 'compact', compactDisplay: 'short' }).format(value);
+
+const MonthlyComparisonChart: React.FC<MonthlyComparisonChartProps> = ({ data, currency }) => {
+  const [range, setRange] = useState(DEFAULT_RANGE);
+  const [showPreviousYear, setShowPreviousYear] = useState(false);
+  const [showSavings, setShowSavings] = useState(true);
+
+  const years = useMemo(
+    () => Array.from(new Set(data.map(item => item.key.substring(0, 4)))).sort().reverse(),
+    [data],
+  );
+  const visible = useMemo(() => selectRange(data, range), [data, range]);
+  const hasPreviousYear = visible.some(item => item.previousIncome !== undefined);
 
-const MonthlyComparisonChart: React.FC<MonthlyComparisonChartProps> = ({ data }) => {
   return (
-    <div className="bg-secondary p-6 rounded-lg shadow-lg w-full h-96">
-      <h3 className="text-xl font-bold mb-4 text-text-primary">Phân tích Thu-Chi Các Tháng</h3>
-      {data.length > 0 ? (
-        <ResponsiveContainer width="100%" height="100%">
-          <BarChart data={data} margin={{ top: 5, right: 20, left: 50, bottom: 5 }}>
-            <CartesianGrid strokeDasharray="3 3" stroke="#4a5568" />
-            <XAxis dataKey="month" stroke="#a0aec0" />
-            <YAxis stroke="#a0aec0" tickFormatter={(value) => new Intl.NumberFormat('vi-VN', { notation: 'compact', compactDisplay: 'short' }).format(value as number)} />
-            <Tooltip content={<CustomTooltip />} cursor={{ fill: 'rgba(74, 85, 104, 0.5)' }}/>
-            <Legend />
-            <Bar dataKey="income" fill="#48bb78" name="Thu nhập" radius={[4, 4, 0, 0]} />
-            <Bar dataKey="expense" fill="#f56565" name="Chi tiêu" radius={[4, 4, 0, 0]} />
-          </BarChart>
-        </ResponsiveContainer>
+    <div className="bg-secondary p-6 rounded-lg shadow-lg w-full h-[28rem] flex flex-col">
+      <div className="flex flex-wrap justify-between items-center gap-3 mb-4">
+        <h3 className="text-xl font-bold text-text-primary">Phân tích Thu-Chi Các Kỳ</h3>
+        <div className="flex flex-wrap items-center gap-4 text-sm">
+          <label className="flex items-center gap-2 text-text-secondary">
+            <input type="checkbox" checked={showSavings} onChange={(e) => setShowSavings(e.target.checked)} />
+            Tiết kiệm
+          </label>
+          <label className={`flex items-center gap-2 ${hasPreviousYear ? 'text-text-secondary' : 'text-text-secondary opacity-50'}`}>
+            <input type="checkbox" checked={showPreviousYear} onChange={(e) => setShowPreviousYear(e.target.checked)} disabled={!hasPreviousYear} />
+            So với năm trước
+          </label>
+          <select value={range} onChange={(e) => setRange(e.target.value)} className="bg-primary border border-accent rounded-md p-2 focus:outline-none focus:ring-2 focus:ring-highlight">
+            {ROLLING_WINDOWS.map(months => (<option key={months} value={`rolling-${months}`}>{months} tháng gần nhất</option>))}
+            {years.map(year => (<option key={year} value={`year-${year}`}>Năm {year}</option>))}
+          </select>
+        </div>
+      </div>
+      {visible.length > 0 ? (
+        <div className="flex-grow min-h-0">
+          <ResponsiveContainer width="100%" height="100%">
+            <ComposedChart data={visible} margin={{ top: 5, right: 20, left: 50, bottom: 5 }}>
+              <CartesianGrid strokeDasharray="3 3" stroke="#4a5568" />
+              <XAxis dataKey="month" stroke="#a0aec0" />
+              <YAxis yAxisId="amount" stroke="#a0aec0" tickFormatter={(value) => compactNumber(value as number)} />
+              {showSavings && (
+                <YAxis yAxisId="rate" orientation="right" stroke="#ecc94b" tickFormatter={(value) => `${value}%`} />
+              )}
+              <Tooltip content={<CustomTooltip currency={currency} />} cursor={{ fill: 'rgba(74, 85, 104, 0.5)' }}/>
+              <Legend />
+              <Bar yAxisId="amount" dataKey="income" fill="#48bb78" name="Thu nhập" radius={[4, 4, 0, 0]} />
+              <Bar yAxisId="amount" dataKey="expense" fill="#f56565" name="Chi tiêu" radius={[4, 4, 0, 0]} />
+              {showSavings && (
+                <Line yAxisId="amount" type="monotone" dataKey="net" stroke="#38b2ac" strokeWidth={2} name="Tiết kiệm ròng" />
+              )}
+              {showSavings && (
+                <Line yAxisId="rate" type="monotone" dataKey={RATE_KEY} stroke="#ecc94b" strokeWidth={2} dot={false} connectNulls name="Tỷ lệ tiết kiệm" />
+              )}
+              {showPreviousYear && hasPreviousYear && (
+                <Line yAxisId="amount" type="monotone" dataKey="previousIncome" stroke="#9ae6b4" strokeDasharray="5 5" dot={false} name="Thu nhập năm trước" />
+              )}
+              {showPreviousYear && hasPreviousYear && (
+                <Line yAxisId="amount" type="monotone" dataKey="previousExpense" stroke="#feb2b2" strokeDasharray="5 5" dot={false} name="Chi tiêu năm trước" />
+              )}
+            </ComposedChart>
+          </ResponsiveContainer>
+        </div>
       ) : (
         <div className="flex items-center justify-center h-full">
             <p className="text-text-secondary">Không có dữ liệu để hiển thị.</p>
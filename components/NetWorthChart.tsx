@@ -0,0 +1,128 @@
+import React, { useMemo, useState } from 'react';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer, ReferenceLine } from 'recharts';
+import { Account, BalanceHistoryPoint, BalanceMarker, BalanceMarkerKind } from '../types';
+import { formatMoney } from '../currency';
+import { addMonthsToKey } from '../period';
+
+interface NetWorthChartProps {
+  points: BalanceHistoryPoint[]; // Oldest day first
+  markers: BalanceMarker[];
+  accounts: Account[];
+  currency: string; // Every amount is already converted to this currency
+}
+
+const RANGES = [
+  { value: '3', label: '3 tháng' },
+  { value: '6', label: '6 tháng' },
+  { value: '12', label: '1 năm' },
+  { value: 'all', label: 'Toàn bộ' },
+];
+
+const ACCOUNT_COLORS = ['#48bb78', '#ecc94b', '#63b3ed', '#b794f4', '#f6ad55', '#f687b3'];
+const TOTAL_KEY = 'total';
+const DEBTS_KEY = 'debts';
+// Prefixed so an account id can never collide with "date", "total" or "debts"
+const accountKey = (accountId: string) => `account:${accountId}`;
+
+const formatDay = (key: string) => `${key.substring(8, 10)}/${key.substring(5, 7)}/${key.substring(2, 4)}`;
+
+const CustomTooltip = ({ active, payload, label, currency }: any) => {
+  if (active && payload && payload.length) {
+    return (
+      <div className="bg-secondary p-4 rounded-lg shadow-lg border border-accent">
+        <p className="label font-bold text-highlight">{formatDay(label)}</p>
+        {payload.map((entry: any) => (
+          <p key={entry.dataKey} style={{ color: entry.color }} className={entry.dataKey === TOTAL_KEY ? 'font-bold' : ''}>
+            {`${entry.name}: ${formatMoney(entry.value, currency)}`}
+          </p>
+        ))}
+      </div>
+    );
+  }
+
+  return null;
+};
+
+const NetWorthChart: React.FC<NetWorthChartProps> = ({ points, markers, accounts, currency }) => {
+  const [range, setRange] = useState('12');
+
+  const firstVisible = useMemo(() => {
+    if (range === 'all' || points.length === 0) return '';
+    return addMonthsToKey(points[points.length - 1].date, -parseInt(range, 10));
+  }, [points, range]);
+
+  const data = useMemo(() => points
+    .filter(point => point.date >= firstVisible)
+    .map(point => {
+      const row: { [key: string]: string | number } = { date: point.date, [TOTAL_KEY]: point.total, [DEBTS_KEY]: point.debts };
+      accounts.forEach(account => { row[accountKey(account.id)] = point.balances[account.id] || 0; });
+      return row;
+    }), [points, accounts, firstVisible]);
+
+  const hasDebts = useMemo(() => data.some(row => row[DEBTS_KEY] !== 0), [data]);
+  const visibleMarkers = useMemo(() => markers.filter(marker => marker.date >= firstVisible), [markers, firstVisible]);
+  const accountNames = useMemo(() => new Map(accounts.map(account => [account.id, account.name])), [accounts]);
+  const latest = points[points.length - 1];
+
+  return (
+    <div className="bg-secondary p-6 rounded-lg shadow-lg w-full">
+      <div className="flex flex-wrap justify-between items-center gap-3 mb-4">
+        <div>
+          <h3 className="text-xl font-bold text-text-primary">Tài sản ròng theo thời gian</h3>
+          {latest && <p className="text-sm text-text-secondary">Hiện tại: <span className="text-highlight font-bold">{formatMoney(latest.total, currency)}</span></p>}
+        </div>
+        <select value={range} onChange={(e) => setRange(e.target.value)} className="bg-primary border border-accent rounded-md p-2 focus:outline-none focus:ring-2 focus:ring-highlight">
+          {RANGES.map(option => (<option key={option.value} value={option.value}>{option.label}</option>))}
+        </select>
+      </div>
+      {data.length > 1 ? (
+        <div className="h-80">
+          <ResponsiveContainer width="100%" height="100%">
+            <LineChart data={data} margin={{ top: 5, right: 20, left: 50, bottom: 5 }}>
+              <CartesianGrid strokeDasharray="3 3" stroke="#4a5568" />
+              <XAxis dataKey="date" stroke="#a0aec0" tickFormatter={formatDay} minTickGap={24} />
+              <YAxis stroke="#a0aec0" tickFormatter={(value) => new Intl.NumberFormat('vi-VN', { notation: 'compact', compactDisplay: 'short' }).format(value as number)} />
+              <Tooltip content={<CustomTooltip currency={currency} />} />
+              <Legend />
+              {visibleMarkers.map((marker, index) => (
+                <ReferenceLine
+                  key={`${marker.kind}-${marker.date}-${index}`}
+                  x={marker.date}
+                  stroke={marker.kind === BalanceMarkerKind.ROLLOVER ? '#38b2ac' : '#f56565'}
+                  strokeDasharray="4 4"
+                />
+              ))}
+              {accounts.map((account, index) => (
+                <Line key={account.id} type="stepAfter" dataKey={accountKey(account.id)} name={account.name} stroke={ACCOUNT_COLORS[index % ACCOUNT_COLORS.length]} dot={false} isAnimationActive={false} />
+              ))}
+              {hasDebts && (
+                <Line type="stepAfter" dataKey={DEBTS_KEY} name="Vay / cho vay" stroke="#fc8181" strokeDasharray="6 3" dot={false} isAnimationActive={false} />
+              )}
+              <Line type="stepAfter" dataKey={TOTAL_KEY} name="Tổng tài sản" stroke="#e2e8f0" strokeWidth={3} dot={false} isAnimationActive={false} />
+            </LineChart>
+          </ResponsiveContainer>
+        </div>
+      ) : (
+        <p className="text-text-secondary">Chưa đủ dữ liệu để vẽ lịch sử số dư.</p>
+      )}
+      {visibleMarkers.length > 0 && (
+        <div className="mt-4 max-h-40 overflow-y-auto space-y-1 text-sm">
+          {[...visibleMarkers].reverse().map((marker, index) => (
+            <p key={`${marker.kind}-${marker.date}-${index}`} className="flex justify-between gap-4">
+              <span>
+                <i className={`fas ${marker.kind === BalanceMarkerKind.ROLLOVER ? 'fa-flag-checkered text-highlight' : 'fa-exchange-alt text-red-400'} mr-2`}></i>
+                {formatDay(marker.date)} · {marker.label}
+                <span className="text-text-secondary">
+                  {' '}({accountNames.get(marker.accountId) || marker.accountId}{marker.destination ? ` → ${accountNames.get(marker.destination) || marker.destination}` : ''})
+                </span>
+              </span>
+              <span className="whitespace-nowrap">{formatMoney(marker.amount, currency)}</span>
+            </p>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default NetWorthChart;
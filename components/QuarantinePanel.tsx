@@ -0,0 +1,157 @@
+import React, { useState } from 'react';
+import { QuarantinedRow, Transaction, TransactionType, TransactionSource, Account } from '../types';
+import { TRANSACTION_HEADERS } from '../data';
+import { normalizeTransactionType, normalizeAccountId, normalizeAmount, normalizeSheetDate, normalizeCurrency } from '../validation';
+import { toDateKey } from '../recurring';
+
+interface QuarantinePanelProps {
+  rows: QuarantinedRow[];
+  accounts: Account[];
+  categories: string[];
+  currencies: string[];
+  isSaving: boolean;
+  onRepair: (row: QuarantinedRow, tx: Transaction) => void;
+}
+
+const inputClassName = 'w-full bg-primary border border-accent rounded-md p-2 focus:outline-none focus:ring-2 focus:ring-highlight';
+
+// Pre-fills the form with whatever can still be read from the row
+const createDraft = (row: QuarantinedRow) => {
+  const [, date, description, amount, type, source, destination, category, , currency] = row.cells;
+  const normalizedDate = normalizeSheetDate(date);
+  return {
+    date: normalizedDate ? toDateKey(new Date(normalizedDate)) : '',
+    description,
+    amount: normalizeAmount(amount)?.toString() || '',
+    type: normalizeTransactionType(type) || TransactionType.EXPENSE,
+    source: normalizeAccountId(source) || TransactionSource.GENERAL,
+    destination: normalizeAccountId(destination) || TransactionSource.PROVISION,
+    category,
+    currency: normalizeCurrency(currency) || '',
+  };
+};
+
+// Rows of the Transactions sheet that could not be read. They are left out of every total until
+// they are corrected here, which overwrites the row in place.
+const QuarantinePanel: React.FC<QuarantinePanelProps> = ({ rows, accounts, categories, currencies, isSaving, onRepair }) => {
+  const [editing, setEditing] = useState<QuarantinedRow | null>(null);
+  const [form, setForm] = useState<ReturnType<typeof createDraft> | null>(null);
+  const [formError, setFormError] = useState('');
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
+    const { name, value } = e.target;
+    setForm(prev => prev && ({ ...prev, [name]: value }));
+  };
+
+  const handleEdit = (row: QuarantinedRow) => {
+    setEditing(row);
+    setForm(createDraft(row));
+    setFormError('');
+  };
+
+  const handleCancel = () => {
+    setEditing(null);
+    setForm(null);
+    setFormError('');
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!editing || !form) return;
+    const amount = parseFloat(form.amount);
+    if (!form.date || !form.description.trim() || isNaN(amount) || amount <= 0) {
+      setFormError('Vui lòng nhập ngày, mô tả và số tiền lớn hơn 0.');
+      return;
+    }
+    if (form.type === TransactionType.TRANSFER && form.source === form.destination) {
+      setFormError('Nguồn và đích không được giống nhau khi thực hiện chuyển khoản.');
+      return;
+    }
+    const [id, , , , , , , , tags, , , goal, debt] = editing.cells;
+    onRepair(editing, {
+      // A row without an id gets a new one; a duplicated id must be replaced to be told apart
+      id: id && !editing.problems.some(problem => problem.startsWith('Trùng mã')) ? id : `txn-${new Date().getTime()}`,
+      date: new Date(form.date).toISOString(),
+      description: form.description.trim(),
+      amount,
+      currency: form.currency || undefined,
+      type: form.type,
+      source: form.source,
+      destination: form.type === TransactionType.TRANSFER ? form.destination : undefined,
+      category: form.type !== TransactionType.TRANSFER ? form.category || undefined : undefined,
+      tags: tags ? tags.split(',').map(tag => tag.trim()).filter(Boolean) : [],
+      goal: goal || undefined,
+      debt: debt || undefined,
+    });
+    handleCancel();
+  };
+
+  return (
+    <div className="bg-secondary p-6 rounded-lg shadow-lg border border-yellow-500/50">
+      <h3 className="text-xl font-bold mb-2"><i className="fas fa-exclamation-triangle text-yellow-400 mr-2"></i>Dữ liệu cần kiểm tra</h3>
+      <p className="text-sm text-text-secondary mb-4">
+        {rows.length} dòng trong sheet Transactions không đọc được và đang không được tính vào số dư hay báo cáo. Hãy sửa lại để đưa chúng vào sổ.
+      </p>
+      <div className="space-y-3 max-h-96 overflow-y-auto">
+        {rows.map(row => (
+          <div key={row.rowIndex} className="p-3 bg-primary rounded-md">
+            <div className="flex justify-between items-start gap-3">
+              <div className="min-w-0">
+                <p className="font-semibold">Dòng {row.rowIndex}</p>
+                <p className="text-xs text-text-secondary break-all">
+                  {row.cells.map((cell, column) => `${TRANSACTION_HEADERS[column]}: ${cell || '—'}`).join(' · ')}
+                </p>
+                <ul className="text-sm text-red-400 mt-1 list-disc list-inside">
+                  {row.problems.map(problem => <li key={problem}>{problem}</li>)}
+                </ul>
+              </div>
+              {editing?.rowIndex !== row.rowIndex && (
+                <button onClick={() => handleEdit(row)} className="text-highlight whitespace-nowrap" title="Sửa"><i className="fas fa-pen mr-1"></i>Sửa</button>
+              )}
+            </div>
+            {editing?.rowIndex === row.rowIndex && form && (
+              <form onSubmit={handleSubmit} className="space-y-3 mt-3">
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                  <input type="date" name="date" value={form.date} onChange={handleChange} className={inputClassName} />
+                  <input type="text" name="description" value={form.description} onChange={handleChange} placeholder="Mô tả" className={inputClassName} />
+                  <input type="number" name="amount" value={form.amount} onChange={handleChange} placeholder="Số tiền" className={inputClassName} />
+                  <select name="currency" value={form.currency} onChange={handleChange} className={inputClassName}>
+                    <option value="">Tiền tệ của tài khoản</option>
+                    {currencies.map(currency => (<option key={currency} value={currency}>{currency}</option>))}
+                  </select>
+                  <select name="type" value={form.type} onChange={handleChange} className={inputClassName}>
+                    <option value={TransactionType.EXPENSE}>Chi tiêu</option>
+                    <option value={TransactionType.INCOME}>Thu nhập</option>
+                    <option value={TransactionType.TRANSFER}>Chuyển khoản</option>
+                  </select>
+                  <select name="source" value={form.source} onChange={handleChange} className={inputClassName}>
+                    {accounts.map(account => (<option key={account.id} value={account.id}>{account.name}</option>))}
+                  </select>
+                  {form.type === TransactionType.TRANSFER ? (
+                    <select name="destination" value={form.destination} onChange={handleChange} className={inputClassName}>
+                      {accounts.map(account => (<option key={account.id} value={account.id}>{account.name}</option>))}
+                    </select>
+                  ) : (
+                    <select name="category" value={form.category} onChange={handleChange} className={inputClassName}>
+                      <option value="">Chưa phân loại</option>
+                      {categories.map(category => (<option key={category} value={category}>{category}</option>))}
+                    </select>
+                  )}
+                </div>
+                {formError && <p className="text-red-400 text-sm">{formError}</p>}
+                <div className="flex gap-3">
+                  <button type="submit" disabled={isSaving} className="flex-grow bg-highlight text-primary font-bold py-2 px-4 rounded-md hover:bg-teal-400 transition duration-300 disabled:opacity-50">
+                    {isSaving ? 'Đang lưu...' : 'Ghi đè dòng này'}
+                  </button>
+                  <button type="button" onClick={handleCancel} className="bg-accent text-text-primary font-bold py-2 px-4 rounded-md hover:bg-gray-600 transition duration-300">Hủy</button>
+                </div>
+              </form>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default QuarantinePanel;
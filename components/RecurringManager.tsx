@@ -0,0 +1,217 @@
+import React, { useState } from 'react';
+import { RecurringTemplate, RecurrenceFrequency, TransactionType, TransactionSource, Account } from '../types';
+import { describeSchedule, getUpcomingOccurrences, parseDateKey } from '../recurring';
+import { formatMoney, DEFAULT_BASE_CURRENCY } from '../currency';
+
+interface RecurringManagerProps {
+  templates: RecurringTemplate[];
+  accounts: Account[];
+  categories: string[];
+  currencies: string[];
+  today: string; // "YYYY-MM-DD"
+  onSave: (template: RecurringTemplate) => void;
+  onDelete: (template: RecurringTemplate) => void;
+  onTogglePause: (template: RecurringTemplate) => void;
+}
+
+const UPCOMING_PREVIEW_COUNT = 3;
+
+const inputClassName = 'w-full bg-primary border border-accent rounded-md p-2 focus:outline-none focus:ring-2 focus:ring-highlight';
+
+const createEmptyForm = (today: string) => ({
+  description: '',
+  amount: '',
+  currency: '', // Empty means the source account's currency
+  type: TransactionType.EXPENSE,
+  source: TransactionSource.GENERAL as string,
+  destination: TransactionSource.PROVISION as string,
+  category: '',
+  frequency: RecurrenceFrequency.MONTHLY,
+  interval: '1',
+  daysOfMonth: '',
+  startDate: today,
+  endDate: '',
+});
+
+const RecurringManager: React.FC<RecurringManagerProps> = ({ templates, accounts, categories, currencies, today, onSave, onDelete, onTogglePause }) => {
+  const [form, setForm] = useState(() => createEmptyForm(today));
+  const [editing, setEditing] = useState<RecurringTemplate | null>(null);
+  const [formError, setFormError] = useState('');
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
+    const { name, value } = e.target;
+    setForm(prev => ({ ...prev, [name]: value }));
+  };
+
+  const handleEdit = (template: RecurringTemplate) => {
+    setEditing(template);
+    setFormError('');
+    setForm({
+      description: template.description,
+      amount: template.amount.toString(),
+      currency: template.currency || '',
+      type: template.type,
+      source: template.source,
+      destination: template.destination || TransactionSource.PROVISION,
+      category: template.category || '',
+      frequency: template.frequency,
+      interval: template.interval.toString(),
+      daysOfMonth: template.daysOfMonth.join(', '),
+      startDate: template.startDate,
+      endDate: template.endDate || '',
+    });
+  };
+
+  const handleReset = () => {
+    setEditing(null);
+    setFormError('');
+    setForm(createEmptyForm(today));
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const amount = parseFloat(form.amount);
+    const interval = parseInt(form.interval, 10);
+    const daysOfMonth = form.daysOfMonth.split(',').map(day => parseInt(day.trim(), 10)).filter(day => day >= 1 && day <= 31);
+
+    if (!form.description.trim() || isNaN(amount) || amount <= 0 || !form.startDate) {
+      setFormError('Vui lòng điền đầy đủ và chính xác các thông tin.');
+      return;
+    }
+    if (form.frequency === RecurrenceFrequency.CUSTOM_DAYS ? daysOfMonth.length === 0 : !(interval >= 1)) {
+      setFormError('Lịch lặp lại không hợp lệ.');
+      return;
+    }
+    if (form.type === TransactionType.TRANSFER && form.source === form.destination) {
+      setFormError('Nguồn và đích không được giống nhau khi thực hiện chuyển khoản.');
+      return;
+    }
+    if (form.endDate && form.endDate < form.startDate) {
+      setFormError('Ngày kết thúc phải sau ngày bắt đầu.');
+      return;
+    }
+
+    onSave({
+      id: editing ? editing.id : `tpl-${new Date().getTime()}`,
+      description: form.description.trim(),
+      amount,
+      currency: form.currency || undefined,
+      type: form.type,
+      source: form.source,
+      destination: form.type === TransactionType.TRANSFER ? form.destination : undefined,
+      category: form.type !== TransactionType.TRANSFER ? form.category || undefined : undefined,
+      tags: editing?.tags,
+      frequency: form.frequency,
+      interval: interval >= 1 ? interval : 1,
+      daysOfMonth,
+      startDate: form.startDate,
+      endDate: form.endDate || undefined,
+      paused: editing ? editing.paused : false,
+      // Editing never re-creates occurrences that were already materialized
+      lastOccurrence: editing?.lastOccurrence,
+    });
+    handleReset();
+  };
+
+  return (
+    <div className="bg-secondary p-6 rounded-lg shadow-lg">
+      <h3 className="text-xl font-bold mb-4">Giao dịch định kỳ</h3>
+
+      <div className="space-y-3 mb-6">
+        {templates.map(template => {
+          const upcoming = template.paused ? [] : getUpcomingOccurrences(template, today, UPCOMING_PREVIEW_COUNT);
+          return (
+            <div key={template.id} className={`p-3 bg-primary rounded-md ${template.paused ? 'opacity-60' : ''}`}>
+              <div className="flex justify-between items-start">
+                <div>
+                  <p className="font-semibold">
+                    {template.description}
+                    {template.paused && <span className="ml-2 text-xs text-yellow-400"><i className="fas fa-pause mr-1"></i>Tạm dừng</span>}
+                  </p>
+                  <p className="text-sm text-text-secondary">
+                    {describeSchedule(template)}
+                    <span className="mx-2">·</span>
+                    <span className={template.type === TransactionType.INCOME ? 'text-green-400' : template.type === TransactionType.EXPENSE ? 'text-red-400' : 'text-yellow-400'}>{formatMoney(template.amount, template.currency || accounts.find(account => account.id === template.source)?.currency || DEFAULT_BASE_CURRENCY)}</span>
+                  </p>
+                  {upcoming.length > 0 && (
+                    <p className="text-xs text-text-secondary mt-1">
+                      Sắp tới: {upcoming.map(date => parseDateKey(date).toLocaleDateString('vi-VN')).join(', ')}
+                    </p>
+                  )}
+                </div>
+                <div className="flex gap-3">
+                  <button onClick={() => onTogglePause(template)} className="text-yellow-400" title={template.paused ? 'Tiếp tục' : 'Tạm dừng'}>
+                    <i className={`fas ${template.paused ? 'fa-play' : 'fa-pause'}`}></i>
+                  </button>
+                  <button onClick={() => handleEdit(template)} className="text-highlight" title="Sửa"><i className="fas fa-pen"></i></button>
+                  <button onClick={() => onDelete(template)} className="text-red-500" title="Xóa"><i className="fas fa-trash"></i></button>
+                </div>
+              </div>
+            </div>
+          );
+        })}
+        {templates.length === 0 && (
+          <p className="text-text-secondary">Chưa có giao dịch định kỳ nào (tiền nhà, lương, thuê bao...).</p>
+        )}
+      </div>
+
+      <form onSubmit={handleSubmit} className="space-y-3">
+        <h4 className="font-semibold text-text-secondary">{editing ? 'Sửa mẫu định kỳ' : 'Thêm mẫu định kỳ'}</h4>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+          <input type="text" name="description" value={form.description} onChange={handleChange} placeholder="Mô tả" className={inputClassName} />
+          <input type="number" name="amount" value={form.amount} onChange={handleChange} placeholder="Số tiền" className={inputClassName} />
+          <select name="currency" value={form.currency} onChange={handleChange} className={inputClassName}>
+            <option value="">Tiền tệ của tài khoản</option>
+            {currencies.map(currency => (<option key={currency} value={currency}>{currency}</option>))}
+          </select>
+          <select name="type" value={form.type} onChange={handleChange} className={inputClassName}>
+            <option value={TransactionType.EXPENSE}>Chi tiêu</option>
+            <option value={TransactionType.INCOME}>Thu nhập</option>
+            <option value={TransactionType.TRANSFER}>Chuyển khoản</option>
+          </select>
+          <select name="source" value={form.source} onChange={handleChange} className={inputClassName}>
+            {accounts.map(account => (<option key={account.id} value={account.id}>{account.name}</option>))}
+          </select>
+          {form.type === TransactionType.TRANSFER ? (
+            <select name="destination" value={form.destination} onChange={handleChange} className={inputClassName}>
+              {accounts.map(account => (<option key={account.id} value={account.id}>{account.name}</option>))}
+            </select>
+          ) : (
+            <select name="category" value={form.category} onChange={handleChange} className={inputClassName}>
+              <option value="">Chưa phân loại</option>
+              {categories.map(category => (<option key={category} value={category}>{category}</option>))}
+            </select>
+          )}
+          <select name="frequency" value={form.frequency} onChange={handleChange} className={inputClassName}>
+            <option value={RecurrenceFrequency.DAILY}>Theo ngày</option>
+            <option value={RecurrenceFrequency.WEEKLY}>Theo tuần</option>
+            <option value={RecurrenceFrequency.MONTHLY}>Theo tháng</option>
+            <option value={RecurrenceFrequency.CUSTOM_DAYS}>Các ngày cố định trong tháng</option>
+          </select>
+          {form.frequency === RecurrenceFrequency.CUSTOM_DAYS ? (
+            <input type="text" name="daysOfMonth" value={form.daysOfMonth} onChange={handleChange} placeholder="Các ngày, ví dụ: 1, 15" className={inputClassName} />
+          ) : (
+            <input type="number" name="interval" min="1" value={form.interval} onChange={handleChange} placeholder="Lặp lại mỗi N kỳ" className={inputClassName} />
+          )}
+          <div>
+            <label htmlFor="recurring-start" className="block text-xs text-text-secondary mb-1">Bắt đầu</label>
+            <input type="date" id="recurring-start" name="startDate" value={form.startDate} onChange={handleChange} className={inputClassName} />
+          </div>
+          <div>
+            <label htmlFor="recurring-end" className="block text-xs text-text-secondary mb-1">Kết thúc (không bắt buộc)</label>
+            <input type="date" id="recurring-end" name="endDate" value={form.endDate} onChange={handleChange} className={inputClassName} />
+          </div>
+        </div>
+        {formError && <p className="text-red-400 text-sm">{formError}</p>}
+        <div className="flex gap-3">
+          <button type="submit" className="flex-grow bg-highlight text-primary font-bold py-2 px-4 rounded-md hover:bg-teal-400 transition duration-300">{editing ? 'Lưu thay đổi' : 'Thêm mẫu'}</button>
+          {editing && (
+            <button type="button" onClick={handleReset} className="bg-accent text-text-primary font-bold py-2 px-4 rounded-md hover:bg-gray-600 transition duration-300">Hủy</button>
+          )}
+        </div>
+      </form>
+    </div>
+  );
+};
+
+export default RecurringManager;
@@ -0,0 +1,64 @@
+import React from 'react';
+import { RolloverEntry } from '../types';
+import { formatMoney } from '../currency';
+import { describePeriod } from '../period';
+
+interface RolloverHistoryProps {
+  entries: RolloverEntry[];
+  accountNames: { [accountId: string]: string };
+  accountCurrencies: { [accountId: string]: string };
+  onUndo: (entry: RolloverEntry) => void;
+  onReapply: (entry: RolloverEntry) => void;
+}
+
+const RolloverHistory: React.FC<RolloverHistoryProps> = ({ entries, accountNames, accountCurrencies, onUndo, onReapply }) => {
+  return (
+    <div className="bg-secondary p-6 rounded-lg shadow-lg">
+      <h3 className="text-xl font-bold mb-4">Lịch sử quyết toán</h3>
+      {entries.length > 0 ? (
+        <div className="overflow-x-auto max-h-80 overflow-y-auto">
+          <table className="w-full text-sm text-left">
+            <thead className="text-text-secondary border-b border-accent">
+              <tr>
+                <th className="py-2 pr-4">Kỳ</th>
+                <th className="py-2 pr-4 text-right">Mục tiêu</th>
+                <th className="py-2 pr-4 text-right">Đã dùng</th>
+                <th className="py-2 pr-4 text-right">Chuyển sang</th>
+                <th className="py-2 pr-4">Thời điểm</th>
+                <th className="py-2"></th>
+              </tr>
+            </thead>
+            <tbody>
+              {entries.map(entry => (
+                <tr key={entry.id} className={`border-b border-accent/50 ${entry.undoneAt ? 'text-text-secondary' : ''}`}>
+                  <td className="py-2 pr-4 whitespace-nowrap">{describePeriod({ key: entry.period, endKey: entry.periodEnd, label: '' })}</td>
+                  <td className="py-2 pr-4 text-right">{formatMoney(entry.goal, entry.currency)}</td>
+                  <td className="py-2 pr-4 text-right">{formatMoney(entry.used, entry.currency)}</td>
+                  <td className="py-2 pr-4 text-right">
+                    {formatMoney(entry.accountAmount, accountCurrencies[entry.account] || entry.currency)}
+                    <span className="block text-xs text-text-secondary">{accountNames[entry.account] || entry.account}</span>
+                  </td>
+                  <td className="py-2 pr-4 whitespace-nowrap">
+                    {new Date(entry.appliedAt).toLocaleString('vi-VN')}
+                    {entry.undoneAt && <span className="block text-xs text-yellow-400">Đã hoàn tác {new Date(entry.undoneAt).toLocaleString('vi-VN')}</span>}
+                  </td>
+                  <td className="py-2 text-right">
+                    {entry.accountAmount !== 0 && (entry.undoneAt ? (
+                      <button onClick={() => onReapply(entry)} className="text-highlight hover:underline whitespace-nowrap" title="Áp dụng lại"><i className="fas fa-redo mr-1"></i>Áp dụng lại</button>
+                    ) : (
+                      <button onClick={() => onUndo(entry)} className="text-red-400 hover:underline whitespace-nowrap" title="Hoàn tác"><i className="fas fa-undo mr-1"></i>Hoàn tác</button>
+                    ))}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      ) : (
+        <p className="text-text-secondary">Chưa có kỳ nào được quyết toán. Phần thu nhập còn lại của mỗi kỳ sẽ được ghi lại tại đây khi kỳ mới bắt đầu.</p>
+      )}
+    </div>
+  );
+};
+
+export default RolloverHistory;
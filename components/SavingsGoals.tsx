@@ -0,0 +1,119 @@
+import React, { useState } from 'react';
+import { SavingsGoal, SavingsGoalProgress } from '../types';
+import { formatMoney } from '../currency';
+import { parseDateKey } from '../recurring';
+
+interface SavingsGoalsProps {
+  goals: SavingsGoalProgress[];
+  currency: string; // The provision account's currency, which every goal is kept in
+  onSave: (goal: SavingsGoal) => void;
+  onDelete: (goal: SavingsGoal) => void;
+}
+
+const inputClassName = 'w-full bg-primary border border-accent rounded-md p-2 focus:outline-none focus:ring-2 focus:ring-highlight';
+
+const createEmptyForm = () => ({ name: '', targetAmount: '', targetDate: '' });
+
+const SavingsGoals: React.FC<SavingsGoalsProps> = ({ goals, currency, onSave, onDelete }) => {
+  const [form, setForm] = useState(createEmptyForm);
+  const [editing, setEditing] = useState<SavingsGoal | null>(null);
+  const [formError, setFormError] = useState('');
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const { name, value } = e.target;
+    setForm(prev => ({ ...prev, [name]: value }));
+  };
+
+  const handleEdit = (goal: SavingsGoal) => {
+    setEditing(goal);
+    setFormError('');
+    setForm({ name: goal.name, targetAmount: goal.targetAmount.toString(), targetDate: goal.targetDate });
+  };
+
+  const handleReset = () => {
+    setEditing(null);
+    setFormError('');
+    setForm(createEmptyForm());
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const targetAmount = parseFloat(form.targetAmount);
+    if (!form.name.trim() || isNaN(targetAmount) || targetAmount <= 0 || !form.targetDate) {
+      setFormError('Vui lòng nhập tên, số tiền mục tiêu và ngày hoàn thành.');
+      return;
+    }
+    onSave({
+      id: editing ? editing.id : `goal-${new Date().getTime()}`,
+      name: form.name.trim(),
+      targetAmount,
+      targetDate: form.targetDate,
+      createdAt: editing ? editing.createdAt : new Date().toISOString(),
+    });
+    handleReset();
+  };
+
+  return (
+    <div className="bg-secondary p-6 rounded-lg shadow-lg">
+      <h3 className="text-xl font-bold mb-4">Mục tiêu tiết kiệm</h3>
+
+      {goals.length > 0 ? (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-6">
+          {goals.map(({ goal, saved, remaining, progress, monthsLeft, requiredMonthly, isOverdue }) => (
+            <div key={goal.id} className="p-4 bg-primary rounded-md">
+              <div className="flex justify-between items-start mb-2">
+                <div>
+                  <p className="font-semibold">{goal.name}</p>
+                  <p className="text-xs text-text-secondary">Hạn: {parseDateKey(goal.targetDate).toLocaleDateString('vi-VN')}</p>
+                </div>
+                <div className="flex gap-3">
+                  <button onClick={() => handleEdit(goal)} className="text-highlight" title="Sửa"><i className="fas fa-pen"></i></button>
+                  <button onClick={() => onDelete(goal)} className="text-red-500" title="Xóa"><i className="fas fa-trash"></i></button>
+                </div>
+              </div>
+              <div className="w-full bg-secondary rounded-full h-2.5">
+                <div className={`h-2.5 rounded-full ${remaining === 0 ? 'bg-green-500' : isOverdue ? 'bg-red-500' : 'bg-highlight'}`} style={{ width: `${progress}%` }} role="progressbar"></div>
+              </div>
+              <div className="flex justify-between text-sm text-text-secondary mt-1">
+                <span>{formatMoney(saved, currency)}</span>
+                <span>{formatMoney(goal.targetAmount, currency)}</span>
+              </div>
+              <p className="text-sm mt-2">
+                {remaining === 0 ? (
+                  <span className="text-green-400"><i className="fas fa-check mr-1"></i>Đã đạt mục tiêu</span>
+                ) : isOverdue ? (
+                  <span className="text-red-400">Đã quá hạn, còn thiếu {formatMoney(remaining, currency)}</span>
+                ) : (
+                  <span>
+                    Cần góp <span className="font-bold text-highlight">{formatMoney(requiredMonthly, currency)}</span>/tháng
+                    <span className="text-text-secondary"> trong {monthsLeft} tháng tới</span>
+                  </span>
+                )}
+              </p>
+            </div>
+          ))}
+        </div>
+      ) : (
+        <p className="text-text-secondary mb-6">Chưa có mục tiêu nào. Tạo mục tiêu (quỹ khẩn cấp, chuyến đi, máy tính...) rồi gán các khoản chuyển vào quỹ dự phòng cho nó.</p>
+      )}
+
+      <form onSubmit={handleSubmit} className="space-y-3">
+        <h4 className="font-semibold text-text-secondary">{editing ? 'Sửa mục tiêu' : 'Thêm mục tiêu'}</h4>
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+          <input type="text" name="name" value={form.name} onChange={handleChange} placeholder="Tên mục tiêu" className={inputClassName} />
+          <input type="number" name="targetAmount" value={form.targetAmount} onChange={handleChange} placeholder={`Số tiền (${currency})`} className={inputClassName} />
+          <input type="date" name="targetDate" value={form.targetDate} onChange={handleChange} className={inputClassName} />
+        </div>
+        {formError && <p className="text-red-400 text-sm">{formError}</p>}
+        <div className="flex gap-3">
+          <button type="submit" className="flex-grow bg-highlight text-primary font-bold py-2 px-4 rounded-md hover:bg-teal-400 transition duration-300">{editing ? 'Lưu thay đổi' : 'Thêm mục tiêu'}</button>
+          {editing && (
+            <button type="button" onClick={handleReset} className="bg-accent text-text-primary font-bold py-2 px-4 rounded-md hover:bg-gray-600 transition duration-300">Hủy</button>
+          )}
+        </div>
+      </form>
+    </div>
+  );
+};
+
+export default SavingsGoals;
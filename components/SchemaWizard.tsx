@@ -0,0 +1,73 @@
+import React from 'react';
+import { SchemaPlan, CURRENT_SCHEMA_VERSION } from '../schema';
+
+interface SchemaWizardProps {
+  plan: SchemaPlan;
+  isApplying: boolean;
+  error: string | null;
+  onApply: () => void;
+  onCancel: () => void;
+}
+
+// Lists what will be changed in the spreadsheet and waits for the user to confirm it
+const SchemaWizard: React.FC<SchemaWizardProps> = ({ plan, isApplying, error, onApply, onCancel }) => {
+  return (
+    <div className="flex items-center justify-center min-h-screen bg-primary">
+      <div className="w-full max-w-lg p-8 space-y-6 bg-secondary rounded-lg shadow-lg">
+        <div className="text-center">
+          <h1 className="text-2xl font-bold text-highlight">Chuẩn bị bảng tính</h1>
+          <p className="mt-2 text-text-secondary">
+            {plan.isNewer
+              ? `Bảng tính này dùng cấu trúc phiên bản ${plan.version}, mới hơn phiên bản ${CURRENT_SCHEMA_VERSION} mà ứng dụng hỗ trợ. Vui lòng dùng phiên bản ứng dụng mới hơn.`
+              : 'Bảng tính cần được cập nhật trước khi sử dụng. Các thay đổi sau sẽ được thực hiện:'}
+          </p>
+        </div>
+
+        {!plan.isNewer && (
+          <ol className="list-decimal list-inside space-y-2 text-sm">
+            {plan.missingSheets.map(title => (
+              <li key={title}>Tạo sheet <span className="font-mono text-highlight">{title}</span>.</li>
+            ))}
+            {plan.needsHeader && <li>Ghi dòng tiêu đề cho sheet <span className="font-mono text-highlight">Transactions</span>.</li>}
+            {plan.migrations.map(migration => (
+              <li key={migration.version}>
+                <span className="text-text-secondary">Phiên bản {migration.version}:</span> {migration.description}
+              </li>
+            ))}
+          </ol>
+        )}
+
+        {plan.migrations.length > 0 && (
+          <p className="text-yellow-400 text-sm">
+            <i className="fas fa-exclamation-triangle mr-2"></i>
+            Nên tạo một bản sao của bảng tính (Tệp → Tạo bản sao) trước khi cập nhật.
+          </p>
+        )}
+        {error && <p className="text-red-400 text-sm">{error}</p>}
+
+        <div className="flex gap-3">
+          <button
+            type="button"
+            onClick={onCancel}
+            disabled={isApplying}
+            className="flex-1 bg-accent hover:bg-gray-600 text-text-primary font-bold py-3 px-4 rounded-md transition duration-300 disabled:cursor-not-allowed"
+          >
+            Đổi kết nối
+          </button>
+          {!plan.isNewer && (
+            <button
+              type="button"
+              onClick={onApply}
+              disabled={isApplying}
+              className="flex-1 bg-highlight text-primary font-bold py-3 px-4 rounded-md hover:bg-teal-400 transition duration-300 disabled:bg-accent disabled:cursor-not-allowed"
+            >
+              {isApplying ? <><i className="fas fa-spinner fa-spin mr-2"></i>Đang cập nhật...</> : 'Cập nhật bảng tính'}
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SchemaWizard;
@@ -0,0 +1,276 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Transaction, TransactionType, Account } from '../types';
+import { formatMoney } from '../currency';
+
+interface TransactionHistoryProps {
+  transactions: Transaction[];
+  baseAmounts: { [transactionId: string]: number }; // Amounts converted to the base currency
+  accounts: Account[];
+  baseCurrency: string;
+  getTransactionCurrency: (tx: Transaction) => string;
+  onEdit: (tx: Transaction) => void;
+  // Resolves to true once the transactions have been removed
+  onDeleteMany: (ids: string[]) => Promise<boolean>;
+  // Transactions recently added or edited on another device
+  highlightedIds?: Set<string>;
+}
+
+type SortKey = 'date' | 'description' | 'amount' | 'type' | 'source' | 'category';
+
+const PAGE_SIZES = [25, 50, 100, 200];
+
+const TYPE_LABELS: { [type in TransactionType]: string } = {
+  [TransactionType.INCOME]: 'Thu nhập',
+  [TransactionType.EXPENSE]: 'Chi tiêu',
+  [TransactionType.TRANSFER]: 'Chuyển khoản',
+};
+
+const inputClassName = 'w-full bg-primary border border-accent rounded-md p-2 focus:outline-none focus:ring-2 focus:ring-highlight';
+
+const createEmptyFilters = () => ({
+  search: '',
+  type: '',
+  source: '',
+  from: '',
+  to: '',
+  minAmount: '',
+  maxAmount: '',
+});
+
+// Income counts up, expenses down; transfers only move money between accounts
+const signedAmount = (tx: Transaction, amount: number): number =>
+  tx.type === TransactionType.INCOME ? amount : tx.type === TransactionType.EXPENSE ? -amount : 0;
+
+const TransactionHistory: React.FC<TransactionHistoryProps> = ({ transactions, baseAmounts, accounts, baseCurrency, getTransactionCurrency, onEdit, onDeleteMany, highlightedIds }) => {
+  const [filters, setFilters] = useState(createEmptyFilters);
+  const [sortKey, setSortKey] = useState<SortKey>('date');
+  const [sortAscending, setSortAscending] = useState(false);
+  const [pageSize, setPageSize] = useState(50);
+  const [page, setPage] = useState(0);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [isDeleting, setIsDeleting] = useState(false);
+
+  const accountNames = useMemo(() => {
+    const names: { [accountId: string]: string } = {};
+    accounts.forEach(account => { names[account.id] = account.name; });
+    return names;
+  }, [accounts]);
+
+  const filtered = useMemo(() => {
+    const search = filters.search.trim().toLowerCase();
+    const minAmount = parseFloat(filters.minAmount);
+    const maxAmount = parseFloat(filters.maxAmount);
+    return transactions.filter(tx => {
+      const day = tx.date.substring(0, 10);
+      // Compared in the base currency, like the sorting and totals below
+      const amount = baseAmounts[tx.id] ?? tx.amount;
+      return (!search || tx.description.toLowerCase().includes(search))
+        && (!filters.type || tx.type === filters.type)
+        && (!filters.source || tx.source === filters.source || tx.destination === filters.source)
+        && (!filters.from || day >= filters.from)
+        && (!filters.to || day <= filters.to)
+        && (isNaN(minAmount) || amount >= minAmount)
+        && (isNaN(maxAmount) || amount <= maxAmount);
+    });
+  }, [transactions, filters, baseAmounts]);
+
+  const sorted = useMemo(() => {
+    const value = (tx: Transaction): string | number => {
+      switch (sortKey) {
+        case 'date': return tx.date;
+        case 'description': return tx.description.toLowerCase();
+        case 'amount': return baseAmounts[tx.id] ?? tx.amount;
+        case 'type': return TYPE_LABELS[tx.type] || tx.type;
+        case 'source': return (accountNames[tx.source] || tx.source).toLowerCase();
+        case 'category': return (tx.category || '').toLowerCase();
+      }
+    };
+    const direction = sortAscending ? 1 : -1;
+    return [...filtered].sort((a, b) => {
+      const first = value(a);
+      const second = value(b);
+      const order = typeof first === 'number' && typeof second === 'number' ? first - second : String(first).localeCompare(String(second), 'vi');
+      return order * direction;
+    });
+  }, [filtered, sortKey, sortAscending, baseAmounts, accountNames]);
+
+  // Running total of the filtered set in date order, whatever the display order is
+  const { runningTotals, totals } = useMemo(() => {
+    const runningTotals: { [transactionId: string]: number } = {};
+    const totals = { income: 0, expense: 0 };
+    let running = 0;
+    [...filtered].sort((a, b) => a.date.localeCompare(b.date)).forEach(tx => {
+      const amount = baseAmounts[tx.id] ?? tx.amount;
+      if (tx.type === TransactionType.INCOME) totals.income += amount;
+      else if (tx.type === TransactionType.EXPENSE) totals.expense += amount;
+      running += signedAmount(tx, amount);
+      runningTotals[tx.id] = running;
+    });
+    return { runningTotals, totals };
+  }, [filtered, baseAmounts]);
+
+  const pageCount = Math.max(1, Math.ceil(sorted.length / pageSize));
+  const pageRows = sorted.slice(page * pageSize, (page + 1) * pageSize);
+
+  // Filtering can shrink the list below the current page
+  useEffect(() => {
+    if (page >= pageCount) setPage(pageCount - 1);
+  }, [page, pageCount]);
+
+  // Selection only ever covers rows that still exist and pass the filters, so a bulk delete never
+  // reaches rows the user cannot see
+  useEffect(() => {
+    setSelected(prev => {
+      const ids = new Set(filtered.map(tx => tx.id));
+      const next = new Set(Array.from(prev).filter(id => ids.has(id)));
+      return next.size === prev.size ? prev : next;
+    });
+  }, [filtered]);
+
+  const handleFilterChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
+    const { name, value } = e.target;
+    setFilters(prev => ({ ...prev, [name]: value }));
+    setPage(0);
+  };
+
+  const handleSort = (key: SortKey) => {
+    if (key === sortKey) {
+      setSortAscending(prev => !prev);
+    } else {
+      setSortKey(key);
+      setSortAscending(key !== 'date' && key !== 'amount');
+    }
+  };
+
+  const toggleSelected = (id: string) => {
+    setSelected(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
+
+  const allPageSelected = pageRows.length > 0 && pageRows.every(tx => selected.has(tx.id));
+
+  const togglePageSelected = () => {
+    setSelected(prev => {
+      const next = new Set(prev);
+      pageRows.forEach(tx => (allPageSelected ? next.delete(tx.id) : next.add(tx.id)));
+      return next;
+    });
+  };
+
+  const handleDeleteSelected = async () => {
+    if (selected.size === 0 || !window.confirm(`Bạn có chắc muốn xóa ${selected.size} giao dịch đã chọn không?`)) return;
+    setIsDeleting(true);
+    const deleted = await onDeleteMany(Array.from(selected));
+    setIsDeleting(false);
+    if (deleted) setSelected(new Set());
+  };
+
+  const sortIndicator = (key: SortKey) =>
+    sortKey === key ? <i className={`fas ${sortAscending ? 'fa-sort-up' : 'fa-sort-down'} ml-1`}></i> : null;
+
+  const header = (key: SortKey, label: string, className = '') => (
+    <th className={`p-2 cursor-pointer select-none ${className}`} onClick={() => handleSort(key)}>{label}{sortIndicator(key)}</th>
+  );
+
+  return (
+    <div className="bg-secondary p-6 rounded-lg shadow-lg">
+      <h3 className="text-xl font-bold mb-4">Lịch sử giao dịch</h3>
+
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-3 mb-4">
+        <input type="text" name="search" value={filters.search} onChange={handleFilterChange} placeholder="Tìm theo mô tả" className={`${inputClassName} md:col-span-2`} />
+        <select name="type" value={filters.type} onChange={handleFilterChange} className={inputClassName}>
+          <option value="">Mọi loại</option>
+          <option value={TransactionType.EXPENSE}>Chi tiêu</option>
+          <option value={TransactionType.INCOME}>Thu nhập</option>
+          <option value={TransactionType.TRANSFER}>Chuyển khoản</option>
+        </select>
+        <select name="source" value={filters.source} onChange={handleFilterChange} className={inputClassName}>
+          <option value="">Mọi tài khoản</option>
+          {accounts.map(account => (<option key={account.id} value={account.id}>{account.name}</option>))}
+        </select>
+        <input type="date" name="from" aria-label="Từ ngày" value={filters.from} onChange={handleFilterChange} className={inputClassName} />
+        <input type="date" name="to" aria-label="Đến ngày" value={filters.to} onChange={handleFilterChange} className={inputClassName} />
+        <input type="number" name="minAmount" value={filters.minAmount} onChange={handleFilterChange} placeholder="Số tiền từ" className={inputClassName} />
+        <input type="number" name="maxAmount" value={filters.maxAmount} onChange={handleFilterChange} placeholder="Số tiền đến" className={inputClassName} />
+      </div>
+
+      <div className="flex flex-wrap justify-between items-center gap-3 mb-4 text-sm">
+        <div className="flex flex-wrap gap-4">
+          <span>{filtered.length} giao dịch</span>
+          <span className="text-green-400">Thu: {formatMoney(totals.income, baseCurrency)}</span>
+          <span className="text-red-400">Chi: {formatMoney(totals.expense, baseCurrency)}</span>
+          <span className={totals.income - totals.expense >= 0 ? 'text-highlight' : 'text-red-500'}>Chênh lệch: {formatMoney(totals.income - totals.expense, baseCurrency)}</span>
+        </div>
+        <div className="flex gap-3">
+          {filtered.length > 0 && selected.size < filtered.length && (
+            <button type="button" onClick={() => setSelected(new Set(filtered.map(tx => tx.id)))} className="text-highlight hover:underline">Chọn tất cả {filtered.length}</button>
+          )}
+          {selected.size > 0 && (
+            <button type="button" onClick={() => setSelected(new Set())} className="text-text-secondary hover:underline">Bỏ chọn</button>
+          )}
+          <button type="button" onClick={handleDeleteSelected} disabled={selected.size === 0 || isDeleting} className="bg-red-600 hover:bg-red-700 text-white font-bold py-1 px-3 rounded-md transition duration-300 disabled:opacity-50">
+            <i className="fas fa-trash mr-2"></i>{isDeleting ? 'Đang xóa...' : `Xóa ${selected.size} mục`}
+          </button>
+        </div>
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm text-left">
+          <thead className="text-text-secondary border-b border-accent">
+            <tr>
+              <th className="p-2"><input type="checkbox" aria-label="Chọn cả trang" checked={allPageSelected} onChange={togglePageSelected} /></th>
+              {header('date', 'Ngày')}
+              {header('description', 'Mô tả')}
+              {header('type', 'Loại')}
+              {header('source', 'Tài khoản')}
+              {header('category', 'Danh mục')}
+              {header('amount', 'Số tiền', 'text-right')}
+              <th className="p-2 text-right">Lũy kế ({baseCurrency})</th>
+              <th className="p-2"></th>
+            </tr>
+          </thead>
+          <tbody>
+            {pageRows.map(tx => (
+              <tr key={tx.id} className={`border-b border-accent ${selected.has(tx.id) ? 'bg-primary' : ''} ${highlightedIds?.has(tx.id) ? 'border-l-4 border-l-highlight' : ''}`}>
+                <td className="p-2"><input type="checkbox" aria-label="Chọn" checked={selected.has(tx.id)} onChange={() => toggleSelected(tx.id)} /></td>
+                <td className="p-2 whitespace-nowrap">{new Date(tx.date).toLocaleDateString('vi-VN')}</td>
+                <td className="p-2">
+                  {tx.description}
+                  {tx.tags && tx.tags.length > 0 && (<span className="ml-2 text-xs text-text-secondary">{tx.tags.map(tag => `#${tag}`).join(' ')}</span>)}
+                </td>
+                <td className="p-2">{TYPE_LABELS[tx.type] || tx.type}</td>
+                <td className="p-2">{accountNames[tx.source] || tx.source}{tx.type === TransactionType.TRANSFER && tx.destination ? ` → ${accountNames[tx.destination] || tx.destination}` : ''}</td>
+                <td className="p-2">{tx.category || ''}</td>
+                <td className={`p-2 text-right whitespace-nowrap ${tx.type === TransactionType.INCOME ? 'text-green-400' : tx.type === TransactionType.EXPENSE ? 'text-red-400' : 'text-yellow-400'}`}>
+                  {formatMoney(tx.amount, getTransactionCurrency(tx))}
+                </td>
+                <td className="p-2 text-right whitespace-nowrap text-text-secondary">{formatMoney(runningTotals[tx.id] || 0, baseCurrency)}</td>
+                <td className="p-2"><button onClick={() => onEdit(tx)} className="text-highlight" title="Sửa"><i className="fas fa-pen"></i></button></td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        {filtered.length === 0 && (
+          <p className="text-text-secondary text-center mt-8">Không có giao dịch nào phù hợp.</p>
+        )}
+      </div>
+
+      <div className="flex justify-between items-center mt-4 text-sm">
+        <select value={pageSize} onChange={(e) => { setPageSize(parseInt(e.target.value, 10)); setPage(0); }} className="bg-primary border border-accent rounded-md p-1 focus:outline-none focus:ring-2 focus:ring-highlight">
+          {PAGE_SIZES.map(size => (<option key={size} value={size}>{size} / trang</option>))}
+        </select>
+        <div className="flex items-center gap-3">
+          <button type="button" onClick={() => setPage(prev => Math.max(0, prev - 1))} disabled={page === 0} className="px-2 disabled:opacity-50"><i className="fas fa-chevron-left"></i></button>
+          <span>Trang {page + 1} / {pageCount}</span>
+          <button type="button" onClick={() => setPage(prev => Math.min(pageCount - 1, prev + 1))} disabled={page >= pageCount - 1} className="px-2 disabled:opacity-50"><i className="fas fa-chevron-right"></i></button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default TransactionHistory;
@@ -0,0 +1,28 @@
+import React, { useEffect } from 'react';
+
+interface UndoToastProps {
+  message: string;
+  actionLabel: string;
+  onAction: () => void;
+  onDismiss: () => void;
+}
+
+const TOAST_DURATION_MS = 8000;
+
+// Confirmation of the last action with a one-click way to take it back
+const UndoToast: React.FC<UndoToastProps> = ({ message, actionLabel, onAction, onDismiss }) => {
+  useEffect(() => {
+    const timer = window.setTimeout(onDismiss, TOAST_DURATION_MS);
+    return () => window.clearTimeout(timer);
+  }, [message, onDismiss]);
+
+  return (
+    <div className="fixed bottom-6 left-1/2 -translate-x-1/2 z-50 bg-secondary border border-accent rounded-lg shadow-lg px-4 py-3 flex items-center gap-4">
+      <p className="text-sm">{message}</p>
+      <button onClick={onAction} className="text-highlight font-bold text-sm hover:underline whitespace-nowrap">{actionLabel}</button>
+      <button onClick={onDismiss} className="text-text-secondary hover:text-text-primary" title="Đóng"><i className="fas fa-times"></i></button>
+    </div>
+  );
+};
+
+export default UndoToast;
@@ -0,0 +1,75 @@
+import { ExchangeRate } from './types';
+
+export const DEFAULT_BASE_CURRENCY = 'VND';
+
+// Offered in the pickers in addition to the currencies already in use
+export const COMMON_CURRENCIES = ['VND', 'USD', 'EUR', 'JPY', 'KRW', 'CNY', 'SGD', 'THB', 'AUD', 'GBP'];
+
+// Formats an amount in the given currency, falling back to a plain number for unknown codes
+export const formatMoney = (value: number, currency: string): string => {
+    try {
+        return new Intl.NumberFormat('vi-VN', { style: 'currency', currency }).format(value);
+    } catch {
+        return `${new Intl.NumberFormat('vi-VN').format(value)} ${currency}`;
+    }
+};
+
+export interface CurrencyConverter {
+    // Converts using the latest rate on or before the date (an ISO string or "YYYY-MM-DD");
+    // pairs without any rate are converted 1:1
+    convert(amount: number, from: string, to: string, date: string): number;
+    hasRate(from: string, to: string): boolean;
+}
+
+// Builds a converter over the rate table. A pair can be quoted in either direction; when neither
+// exists, one intermediate currency is tried (e.g. USD→EUR through VND).
+export const createConverter = (rates: ExchangeRate[]): CurrencyConverter => {
+    const quotes: { [pair: string]: { date: string, rate: number }[] } = {};
+    const addQuote = (from: string, to: string, date: string, rate: number) => {
+        const pair = `${from}→${to}`;
+        (quotes[pair] = quotes[pair] || []).push({ date, rate });
+    };
+    rates
+        .filter(rate => rate.rate > 0 && rate.from && rate.to)
+        .forEach(rate => {
+            addQuote(rate.from, rate.to, rate.date, rate.rate);
+            addQuote(rate.to, rate.from, rate.date, 1 / rate.rate);
+        });
+    Object.values(quotes).forEach(list => list.sort((a, b) => a.date.localeCompare(b.date)));
+
+    // Latest quote on or before the date; the earliest quote when the date predates them all
+    const lookup = (from: string, to: string, day: string): number | undefined => {
+        const list = quotes[`${from}→${to}`];
+        if (!list) return undefined;
+        let found = list[0];
+        for (const quote of list) {
+            if (quote.date > day) break;
+            found = quote;
+        }
+        return found.rate;
+    };
+
+    const currencies = Array.from(new Set(rates.flatMap(rate => [rate.from, rate.to])));
+
+    const findRate = (from: string, to: string, day: string): number | undefined => {
+        if (from === to) return 1;
+        const direct = lookup(from, to, day);
+        if (direct !== undefined) return direct;
+        for (const via of currencies) {
+            const first = lookup(from, via, day);
+            const second = first !== undefined ? lookup(via, to, day) : undefined;
+            if (first !== undefined && second !== undefined) return first * second;
+        }
+        return undefined;
+    };
+
+    return {
+        convert(amount, from, to, date) {
+            if (!from || !to) return amount;
+            return amount * (findRate(from, to, date.substring(0, 10)) ?? 1);
+        },
+        hasRate(from, to) {
+            return findRate(from, to, '9999-12-31') !== undefined;
+        },
+    };
+};
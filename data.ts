@@ -0,0 +1,889 @@
+import { Transaction, TransactionType, ConfigValues, OutboxEntry, OutboxOperation, OutboxStatus, RecurringTemplate, RecurrenceFrequency, ExchangeRate, RolloverEntry, SavingsGoal, Debt, DebtDirection, QuarantinedRow } from './types';
+import { normalizeTransactionType, normalizeAccountId, normalizeAmount, parseSheetDate, normalizeCurrency, getLocaleDateOrder } from './validation';
+import { DateFormat } from './importer';
+
+export const TRANSACTIONS_SHEET_NAME = 'Transactions';
+export const CONFIG_SHEET_NAME = 'Config';
+export const RECURRING_SHEET_NAME = 'Recurring';
+export const RATES_SHEET_NAME = 'Rates';
+export const ROLLOVERS_SHEET_NAME = 'Rollovers';
+export const GOALS_SHEET_NAME = 'Goals';
+export const DEBTS_SHEET_NAME = 'Debts';
+// Header row of the Transactions sheet; see schema.ts for how older layouts are migrated
+export const TRANSACTION_HEADERS = ['id', 'date', 'description', 'amount', 'type', 'source', 'destination', 'category', 'tags', 'currency', 'updatedAt', 'goal', 'debt'];
+const TRANSACTIONS_LAST_COLUMN = 'M';
+
+const LOCAL_DB_NAME = 'personal-finance-tracker';
+const LOCAL_DB_VERSION = 7;
+const TRANSACTIONS_STORE = 'transactions';
+const CONFIG_STORE = 'config';
+const OUTBOX_STORE = 'outbox';
+
+// --- Repository interfaces ---
+
+export interface TransactionRepository {
+    list(): Promise<Transaction[]>;
+    // Like list, but also returns the rows that could not be read as transactions
+    load(): Promise<{ transactions: Transaction[], quarantined: QuarantinedRow[] }>;
+    // Persists the transaction and returns it with any backend-specific fields (e.g. rowIndex) filled in
+    add(tx: Transaction): Promise<Transaction>;
+    // Persists several transactions in a single backend request (used by imports)
+    addMany(txs: Transaction[]): Promise<Transaction[]>;
+    // Overwrites the stored transaction with the same id, keeping its position. When base is given
+    // and the stored row no longer matches it, a conflict error carrying the stored version is thrown.
+    update(tx: Transaction, base?: Transaction): Promise<Transaction>;
+    remove(tx: Transaction): Promise<void>;
+    // Removes several transactions in a single backend request; nothing is removed if any of them fails to resolve
+    removeMany(txs: Transaction[]): Promise<void>;
+    // Overwrites a quarantined row with a corrected transaction, provided the row is still unchanged
+    repairRow(row: QuarantinedRow, tx: Transaction): Promise<Transaction>;
+    // Puts a removed transaction back with its id and date, at the row it occupied (tx.rowIndex) when known
+    restore(tx: Transaction): Promise<Transaction>;
+}
+
+export interface ConfigRepository {
+    load(): Promise<ConfigValues>;
+    // Writes only the given keys, leaving the others untouched
+    save(values: ConfigValues): Promise<void>;
+}
+
+// Durable queue of transaction mutations that have not reached the remote backend yet
+export interface Outbox {
+    list(): Promise<OutboxEntry[]>;
+    // base is the version an UPDATE was made from, see OutboxEntry.base
+    enqueue(operation: OutboxOperation, transaction: Transaction, base?: Transaction): Promise<OutboxEntry>;
+    update(entry: OutboxEntry): Promise<void>;
+    remove(entryId: number): Promise<void>;
+}
+
+// Generic storage for record types that live in their own sheet, one record per row
+export interface RecordRepository<T extends { id: string }> {
+    list(): Promise<T[]>;
+    // Inserts the record, or overwrites the stored record with the same id
+    save(record: T): Promise<void>;
+    remove(id: string): Promise<void>;
+}
+
+// How a record type is laid out: a sheet with a header row and the id in column A for the
+// Sheets backend, and an object store keyed by id for the IndexedDB backend
+interface RecordTable<T extends { id: string }> {
+    sheetName: string;
+    storeName: string;
+    headers: string[];
+    toRow(record: T): (string | number | boolean)[];
+    fromRow(row: any[]): T;
+}
+
+export interface DataStore {
+    transactions: TransactionRepository;
+    config: ConfigRepository;
+    recurring: RecordRepository<RecurringTemplate>;
+    rates: RecordRepository<ExchangeRate>;
+    rollovers: RecordRepository<RolloverEntry>;
+    goals: RecordRepository<SavingsGoal>;
+    debts: RecordRepository<Debt>;
+    // Only set for remote backends: writes go through it so they survive being offline
+    outbox?: Outbox;
+    // Why a remote backend has no outbox, shown next to the sync status
+    outboxError?: string;
+}
+
+// Lists (categories, tags) are kept as comma-separated text so they stay editable in the sheet
+export const parseListValue = (value: string | undefined): string[] =>
+    (value || '').split(',').map(item => item.trim()).filter(item => item);
+
+export const formatListValue = (items: string[] | undefined): string => (items || []).join(', ');
+
+const parseBooleanValue = (value: any): boolean => String(value).toUpperCase() === 'TRUE';
+
+// Turns a 1-based column number into its A1 letter (1 -> A, 27 -> AA)
+const columnLetter = (column: number): string => {
+    let letter = '';
+    for (let n = column; n > 0; n = Math.floor((n - 1) / 26)) {
+        letter = String.fromCharCode(65 + ((n - 1) % 26)) + letter;
+    }
+    return letter;
+};
+
+// Extracts a readable message from gapi, IndexedDB and plain JS errors
+export const getErrorMessage = (err: any): string =>
+    err?.result?.error?.message || err?.message || 'Unknown error';
+
+// --- Google Sheets implementation ---
+
+// Renews the access token after a request was rejected because it expired; set by the auth module
+let refreshAccessToken: (() => Promise<void>) | null = null;
+
+export const setAccessTokenRefresher = (refresher: (() => Promise<void>) | null) => {
+    refreshAccessToken = refresher;
+};
+
+const isAuthError = (err: any): boolean => (err?.status ?? err?.result?.error?.code) === 401;
+
+// Wraps the gapi Sheets client so every call rejected with 401 is retried once with a fresh token.
+// The wrapping is applied lazily to nested objects, e.g. sheets().values.get(...).
+const withAuthRetry = <T extends object>(target: T): T =>
+    new Proxy(target, {
+        get(obj, prop) {
+            const value = (obj as any)[prop];
+            if (typeof value === 'function') {
+                return async (...args: any[]) => {
+                    try {
+                        return await value.apply(obj, args);
+                    } catch (err) {
+                        if (!refreshAccessToken || !isAuthError(err)) throw err;
+                        try {
+                            await refreshAccessToken();
+                        } catch {
+                            throw err; // Report the original failure, the auth module handles the sign-out
+                        }
+                        return value.apply(obj, args);
+                    }
+                };
+            }
+            return value && typeof value === 'object' ? withAuthRetry(value) : value;
+        },
+    });
+
+export const sheets = () => withAuthRetry(window.gapi.client.sheets.spreadsheets);
+
+const transactionToRow = (tx: Transaction) => [
+    tx.id,
+    tx.date,
+    tx.description,
+    tx.amount,
+    tx.type,
+    tx.source,
+    tx.destination || '',
+    tx.category || '',
+    formatListValue(tx.tags),
+    tx.currency || '',
+    tx.updatedAt || '',
+    tx.goal || '',
+    tx.debt || '',
+];
+
+// Marks a transaction as written now, so other devices can tell it changed
+const touch = (tx: Transaction): Transaction => ({ ...tx, updatedAt: new Date().toISOString() });
+
+// Raised when a row was changed elsewhere since the version an edit was based on
+const createConflictError = (remote: Transaction | undefined): Error =>
+    Object.assign(new Error("Giao dịch đã bị sửa từ thiết bị khác trong lúc bạn chỉnh sửa."), { remote });
+
+// The stored version attached to a conflict error, if any
+export const getConflictRemote = (err: any): Transaction | undefined => err?.remote;
+
+const cellText = (value: any): string => String(value ?? '').trim();
+
+// Reads one row of the Transactions sheet. Hand-edited cells are normalized (locale-formatted
+// amounts and dates, lower-case types); anything still invalid is reported instead of guessed.
+// dateOrder is how the spreadsheet's locale writes typed dates, when known.
+const parseTransactionRow = (row: any[], rowIndex: number, dateOrder?: DateFormat): { transaction?: Transaction, problems: string[] } => {
+    const problems: string[] = [];
+    const id = cellText(row[0]);
+    const { date, problem: dateProblem } = parseSheetDate(cellText(row[1]), dateOrder);
+    const amount = normalizeAmount(cellText(row[3]));
+    const type = normalizeTransactionType(cellText(row[4]));
+    const source = normalizeAccountId(cellText(row[5]));
+    const destination = normalizeAccountId(cellText(row[6]));
+    const currency = cellText(row[9]) ? normalizeCurrency(cellText(row[9])) : '';
+
+    if (!id) problems.push('Thiếu mã giao dịch (cột A)');
+    if (!date) problems.push(dateProblem as string);
+    if (amount === undefined) problems.push(`Số tiền không hợp lệ: "${cellText(row[3])}"`);
+    if (!type) problems.push(`Loại giao dịch không hợp lệ: "${cellText(row[4])}"`);
+    if (!source) problems.push('Thiếu tài khoản nguồn (cột F)');
+    if (type === TransactionType.TRANSFER && !destination) problems.push('Chuyển khoản thiếu tài khoản đích (cột G)');
+    if (currency === undefined) problems.push(`Mã tiền tệ không hợp lệ: "${cellText(row[9])}"`);
+    if (problems.length > 0) return { problems };
+
+    return {
+        transaction: {
+            id,
+            date: date as string,
+            description: cellText(row[2]),
+            amount: amount as number,
+            type: type as TransactionType,
+            source,
+            destination: destination || undefined,
+            category: cellText(row[7]) || undefined,
+            tags: parseListValue(row[8]),
+            currency: currency || undefined,
+            rowIndex,
+            updatedAt: cellText(row[10]) || undefined,
+            goal: cellText(row[11]) || undefined,
+            debt: cellText(row[12]) || undefined,
+        },
+        problems,
+    };
+};
+
+const isBlankRow = (row: any[]): boolean => row.every(cell => !cellText(cell));
+const isHeaderRow = (row: any[]): boolean => cellText(row[0]).toLowerCase() === TRANSACTION_HEADERS[0];
+
+// Splits the sheet into transactions and rows needing attention. A repeated id is quarantined
+// too: the later row would otherwise be counted twice and block every edit of that id.
+const readTransactionRows = (values: any[][], dateOrder?: DateFormat): { transactions: Transaction[], quarantined: QuarantinedRow[] } => {
+    const transactions: Transaction[] = [];
+    const quarantined: QuarantinedRow[] = [];
+    const firstRowById = new Map<string, number>();
+
+    values.forEach((row, index) => {
+        const rowIndex = index + 1;
+        if (isBlankRow(row) || isHeaderRow(row)) return;
+        const { transaction, problems } = parseTransactionRow(row, rowIndex, dateOrder);
+        if (transaction && firstRowById.has(transaction.id)) {
+            problems.push(`Trùng mã giao dịch với dòng ${firstRowById.get(transaction.id)}`);
+        }
+        if (transaction && problems.length === 0) {
+            firstRowById.set(transaction.id, rowIndex);
+            transactions.push(transaction);
+        } else {
+            quarantined.push({ rowIndex, cells: TRANSACTION_HEADERS.map((_, column) => cellText(row[column])), problems });
+        }
+    });
+
+    return { transactions, quarantined };
+};
+
+// Compares the stored fields of two transactions, tolerating the formatting Sheets applies to dates and numbers
+export const isSameTransaction = (a: Transaction, b: Transaction): boolean =>
+    a.id === b.id
+    && new Date(a.date).getTime() === new Date(b.date).getTime()
+    && (a.description || '').trim() === (b.description || '').trim()
+    && a.amount === b.amount
+    && a.type === b.type
+    && a.source === b.source
+    && (a.destination || undefined) === (b.destination || undefined)
+    && (a.category || '') === (b.category || '')
+    && formatListValue(a.tags) === formatListValue(b.tags)
+    && (a.currency || '') === (b.currency || '')
+    && (a.goal || '') === (b.goal || '')
+    && (a.debt || '') === (b.debt || '')
+    && (a.updatedAt ? new Date(a.updatedAt).getTime() : 0) === (b.updatedAt ? new Date(b.updatedAt).getTime() : 0);
+
+// Parses the last row number out of an A1 range such as "Transactions!A12:G12"
+const parseRowFromRange = (range: string | undefined): number | undefined => {
+    const match = range?.match(/(\d+)$/);
+    return match ? parseInt(match[1], 10) : undefined;
+};
+
+// Parses the first row number out of an A1 range such as "Transactions!A12:J20"
+const parseFirstRowFromRange = (range: string | undefined): number | undefined => {
+    const match = range?.match(/![A-Z]+(\d+)/);
+    return match ? parseInt(match[1], 10) : undefined;
+};
+
+const createSheetsTransactionRepository = (spreadsheetId: string, sheetId: number, dateOrder?: DateFormat): TransactionRepository => {
+    const range = `${TRANSACTIONS_SHEET_NAME}!A:${TRANSACTIONS_LAST_COLUMN}`;
+
+    // Finds the row a transaction id occupies in a fresh read of the sheet
+    const locateRow = (values: any[][], expected: Transaction, verifyContents: boolean): number => {
+        const matches = values
+            .map((row, index) => ({ row, rowIndex: index + 1 }))
+            .filter(({ row }) => row[0] === expected.id);
+
+        if (matches.length === 0) {
+            throw new Error("Không tìm thấy giao dịch trên Google Sheet. Có thể nó đã bị xóa từ thiết bị khác.");
+        }
+        if (matches.length > 1) {
+            throw new Error(`Có ${matches.length} dòng cùng mã giao dịch ${expected.id} trên Google Sheet. Vui lòng xử lý trực tiếp trên bảng tính.`);
+        }
+        const { row, rowIndex } = matches[0];
+        const stored = parseTransactionRow(row, rowIndex, dateOrder).transaction;
+        if (verifyContents && (!stored || !isSameTransaction(stored, expected))) {
+            throw new Error("Dòng trên Google Sheet đã bị thay đổi so với dữ liệu trong ứng dụng. Vui lòng tải lại trang trước khi thao tác.");
+        }
+        return rowIndex;
+    };
+
+    // Resolves a transaction id to the row it occupies right now. The cached rowIndex is never
+    // trusted for writes: adds, deletes and edits from other devices all shift rows around.
+    const resolveRowIndex = async (expected: Transaction, verifyContents: boolean): Promise<number> => {
+        const response = await sheets().values.get({ spreadsheetId, range });
+        return locateRow(response.result.values || [], expected, verifyContents);
+    };
+
+    return {
+        async list() {
+            return (await this.load()).transactions;
+        },
+
+        async load() {
+            const response = await sheets().values.get({ spreadsheetId, range });
+            return readTransactionRows(response.result.values || [], dateOrder);
+        },
+
+        async add(tx) {
+            const stamped = touch(tx);
+            const response = await sheets().values.append({
+                spreadsheetId,
+                range,
+                valueInputOption: 'USER_ENTERED',
+                resource: { values: [transactionToRow(stamped)] },
+            });
+            return { ...stamped, rowIndex: parseRowFromRange(response.result.updates?.updatedRange) };
+        },
+
+        async addMany(txs) {
+            if (txs.length === 0) return [];
+            const stamped = txs.map(touch);
+            const response = await sheets().values.append({
+                spreadsheetId,
+                range,
+                valueInputOption: 'USER_ENTERED',
+                resource: { values: stamped.map(transactionToRow) },
+            });
+            // Appended rows are contiguous, starting at the first row of the updated range
+            const firstRow = parseFirstRowFromRange(response.result.updates?.updatedRange);
+            return stamped.map((tx, index) => ({ ...tx, rowIndex: firstRow !== undefined ? firstRow + index : undefined }));
+        },
+
+        async update(tx, base) {
+            const response = await sheets().values.get({ spreadsheetId, range });
+            const values: any[][] = response.result.values || [];
+            const rowIndex = locateRow(values, tx, false);
+            if (base) {
+                const stored = parseTransactionRow(values[rowIndex - 1], rowIndex, dateOrder).transaction;
+                if (!stored || !isSameTransaction(stored, base)) throw createConflictError(stored);
+            }
+            const stamped = touch(tx);
+            await sheets().values.update({
+                spreadsheetId,
+                range: `${TRANSACTIONS_SHEET_NAME}!A${rowIndex}:${TRANSACTIONS_LAST_COLUMN}${rowIndex}`,
+                valueInputOption: 'USER_ENTERED',
+                resource: { values: [transactionToRow(stamped)] },
+            });
+            return { ...stamped, rowIndex };
+        },
+
+        async remove(tx) {
+            // Abort rather than delete a row whose contents are not the ones the user confirmed
+            const rowIndex = await resolveRowIndex(tx, true);
+            await sheets().batchUpdate({
+                spreadsheetId,
+                resource: {
+                    requests: [{
+                        deleteDimension: {
+                            range: { sheetId, dimension: 'ROWS', startIndex: rowIndex - 1, endIndex: rowIndex },
+                        },
+                    }],
+                },
+            });
+        },
+
+        async repairRow(row, tx) {
+            // Rows may have shifted since the row was read: look for the same raw contents, nearest first
+            const response = await sheets().values.get({ spreadsheetId, range });
+            const values: any[][] = response.result.values || [];
+            const matches = values
+                .map((cells, index) => ({ cells, rowIndex: index + 1 }))
+                .filter(({ cells }) => row.cells.every((cell, column) => cellText(cells[column]) === cell))
+                .sort((a, b) => Math.abs(a.rowIndex - row.rowIndex) - Math.abs(b.rowIndex - row.rowIndex));
+            if (matches.length === 0) {
+                throw new Error("Dòng này đã bị thay đổi hoặc xóa trên Google Sheet. Vui lòng tải lại trang.");
+            }
+            const { rowIndex } = matches[0];
+            const stamped = touch(tx);
+            await sheets().values.update({
+                spreadsheetId,
+                range: `${TRANSACTIONS_SHEET_NAME}!A${rowIndex}:${TRANSACTIONS_LAST_COLUMN}${rowIndex}`,
+                valueInputOption: 'USER_ENTERED',
+                resource: { values: [transactionToRow(stamped)] },
+            });
+            return { ...stamped, rowIndex };
+        },
+
+        async restore(tx) {
+            const response = await sheets().values.get({ spreadsheetId, range });
+            const values: any[][] = response.result.values || [];
+            if (values.some(row => cellText(row[0]) === tx.id)) {
+                throw new Error("Giao dịch đã có trên Google Sheet, không cần khôi phục.");
+            }
+            // Rows deleted since then may have moved the spot up; never insert above the header row
+            const firstRow = values.length > 0 && isHeaderRow(values[0]) ? 2 : 1;
+            const rowIndex = Math.max(firstRow, Math.min(tx.rowIndex ?? values.length + 1, values.length + 1));
+            if (rowIndex <= values.length) {
+                await sheets().batchUpdate({
+                    spreadsheetId,
+                    resource: {
+                        requests: [{
+                            insertDimension: {
+                                range: { sheetId, dimension: 'ROWS', startIndex: rowIndex - 1, endIndex: rowIndex },
+                                inheritFromBefore: rowIndex > 1,
+                            },
+                        }],
+                    },
+                });
+            }
+            const stamped = touch(tx);
+            await sheets().values.update({
+                spreadsheetId,
+                range: `${TRANSACTIONS_SHEET_NAME}!A${rowIndex}:${TRANSACTIONS_LAST_COLUMN}${rowIndex}`,
+                valueInputOption: 'USER_ENTERED',
+                resource: { values: [transactionToRow(stamped)] },
+            });
+            return { ...stamped, rowIndex };
+        },
+
+        async removeMany(txs) {
+            if (txs.length === 0) return;
+            const response = await sheets().values.get({ spreadsheetId, range });
+            const values: any[][] = response.result.values || [];
+            // Bottom-up, so deleting one row never shifts a row that is still to be deleted
+            const rowIndexes = txs.map(tx => locateRow(values, tx, true)).sort((a, b) => b - a);
+            await sheets().batchUpdate({
+                spreadsheetId,
+                resource: {
+                    requests: rowIndexes.map(rowIndex => ({
+                        deleteDimension: {
+                            range: { sheetId, dimension: 'ROWS', startIndex: rowIndex - 1, endIndex: rowIndex },
+                        },
+                    })),
+                },
+            });
+        },
+    };
+};
+
+const createSheetsConfigRepository = (spreadsheetId: string): ConfigRepository => {
+    const range = `${CONFIG_SHEET_NAME}!A:B`;
+
+    const readRows = async (): Promise<string[][]> => {
+        const response = await sheets().values.get({ spreadsheetId, range });
+        return response.result.values || [];
+    };
+
+    return {
+        async load() {
+            const configMap: ConfigValues = {};
+            (await readRows()).forEach(row => { if (row[0]) configMap[row[0]] = row[1] ?? ''; });
+            return configMap;
+        },
+
+        async save(values) {
+            const rows = await readRows();
+            const data: { range: string, values: string[][] }[] = [];
+            let nextRow = rows.length + 1;
+
+            // Keys that already exist keep their row; new keys go below the last used row
+            Object.keys(values).forEach(key => {
+                const existing = rows.findIndex(row => row[0] === key);
+                const row = existing !== -1 ? existing + 1 : nextRow++;
+                data.push({ range: `${CONFIG_SHEET_NAME}!A${row}:B${row}`, values: [[key, values[key]]] });
+            });
+
+            if (data.length === 0) return;
+            await sheets().values.batchUpdate({
+                spreadsheetId,
+                resource: { valueInputOption: 'USER_ENTERED', data },
+            });
+        },
+    };
+};
+
+const RECURRING_TABLE: RecordTable<RecurringTemplate> = {
+    sheetName: RECURRING_SHEET_NAME,
+    storeName: 'recurring',
+    headers: ['id', 'description', 'amount', 'type', 'source', 'destination', 'category', 'tags', 'frequency', 'interval', 'daysOfMonth', 'startDate', 'endDate', 'paused', 'lastOccurrence', 'currency'],
+    toRow: template => [
+        template.id,
+        template.description,
+        template.amount,
+        template.type,
+        template.source,
+        template.destination || '',
+        template.category || '',
+        formatListValue(template.tags),
+        template.frequency,
+        template.interval,
+        template.daysOfMonth.join(', '),
+        template.startDate,
+        template.endDate || '',
+        template.paused,
+        template.lastOccurrence || '',
+        template.currency || '',
+    ],
+    fromRow: row => ({
+        id: row[0],
+        description: row[1] || '',
+        amount: parseFloat(row[2]) || 0,
+        type: row[3] as TransactionType,
+        source: row[4],
+        destination: row[5] || undefined,
+        category: row[6] || undefined,
+        tags: parseListValue(row[7]),
+        frequency: (row[8] || RecurrenceFrequency.MONTHLY) as RecurrenceFrequency,
+        interval: Math.max(1, parseInt(row[9], 10) || 1),
+        daysOfMonth: parseListValue(row[10]).map(day => parseInt(day, 10)).filter(day => day >= 1 && day <= 31),
+        startDate: row[11] || '',
+        endDate: row[12] || undefined,
+        paused: parseBooleanValue(row[13]),
+        lastOccurrence: row[14] || undefined,
+        currency: row[15] || undefined,
+    }),
+};
+
+const RATES_TABLE: RecordTable<ExchangeRate> = {
+    sheetName: RATES_SHEET_NAME,
+    storeName: 'rates',
+    headers: ['id', 'date', 'from', 'to', 'rate'],
+    toRow: rate => [rate.id, rate.date, rate.from, rate.to, rate.rate],
+    fromRow: row => ({
+        id: row[0],
+        date: row[1] || '',
+        from: (row[2] || '').toUpperCase(),
+        to: (row[3] || '').toUpperCase(),
+        rate: parseFloat(row[4]) || 0,
+    }),
+};
+
+const ROLLOVERS_TABLE: RecordTable<RolloverEntry> = {
+    sheetName: ROLLOVERS_SHEET_NAME,
+    storeName: 'rollovers',
+    headers: ['id', 'period', 'periodEnd', 'goal', 'used', 'carried', 'currency', 'account', 'accountAmount', 'appliedAt', 'undoneAt'],
+    toRow: entry => [
+        entry.id,
+        entry.period,
+        entry.periodEnd,
+        entry.goal,
+        entry.used,
+        entry.carried,
+        entry.currency,
+        entry.account,
+        entry.accountAmount,
+        entry.appliedAt,
+        entry.undoneAt || '',
+    ],
+    fromRow: row => ({
+        id: row[0],
+        period: row[1] || '',
+        periodEnd: row[2] || '',
+        goal: parseFloat(row[3]) || 0,
+        used: parseFloat(row[4]) || 0,
+        carried: parseFloat(row[5]) || 0,
+        currency: (row[6] || '').toUpperCase(),
+        account: row[7] || '',
+        accountAmount: parseFloat(row[8]) || 0,
+        appliedAt: row[9] || '',
+        undoneAt: row[10] || undefined,
+    }),
+};
+
+const GOALS_TABLE: RecordTable<SavingsGoal> = {
+    sheetName: GOALS_SHEET_NAME,
+    storeName: 'goals',
+    headers: ['id', 'name', 'targetAmount', 'targetDate', 'createdAt'],
+    toRow: goal => [goal.id, goal.name, goal.targetAmount, goal.targetDate, goal.createdAt],
+    fromRow: row => ({
+        id: row[0],
+        name: row[1] || '',
+        targetAmount: parseFloat(row[2]) || 0,
+        targetDate: row[3] || '',
+        createdAt: row[4] || '',
+    }),
+};
+
+const DEBTS_TABLE: RecordTable<Debt> = {
+    sheetName: DEBTS_SHEET_NAME,
+    storeName: 'debts',
+    headers: ['id', 'name', 'counterparty', 'direction', 'principal', 'currency', 'annualRate', 'termMonths', 'startDate', 'createdAt'],
+    toRow: debt => [
+        debt.id,
+        debt.name,
+        debt.counterparty,
+        debt.direction,
+        debt.principal,
+        debt.currency,
+        debt.annualRate,
+        debt.termMonths,
+        debt.startDate,
+        debt.createdAt,
+    ],
+    fromRow: row => ({
+        id: row[0],
+        name: row[1] || '',
+        counterparty: row[2] || '',
+        direction: row[3] === DebtDirection.LENT ? DebtDirection.LENT : DebtDirection.BORROWED,
+        principal: parseFloat(row[4]) || 0,
+        currency: (row[5] || '').toUpperCase(),
+        annualRate: parseFloat(row[6]) || 0,
+        termMonths: Math.max(1, parseInt(row[7], 10) || 1),
+        startDate: row[8] || '',
+        createdAt: row[9] || '',
+    }),
+};
+
+const RECORD_TABLES: RecordTable<any>[] = [RECURRING_TABLE, RATES_TABLE, ROLLOVERS_TABLE, GOALS_TABLE, DEBTS_TABLE];
+
+// sheetIds is shared with the other repositories so a sheet created here is seen by everyone
+const createSheetsRecordRepository = <T extends { id: string }>(spreadsheetId: string, table: RecordTable<T>, sheetIds: { [key: string]: number }): RecordRepository<T> => {
+    const lastColumn = columnLetter(table.headers.length);
+    const range = `${table.sheetName}!A:${lastColumn}`;
+
+    const readRows = async (): Promise<any[][]> => {
+        if (sheetIds[table.sheetName] === undefined) return [];
+        const response = await sheets().values.get({ spreadsheetId, range });
+        return response.result.values || [];
+    };
+
+    // Record sheets are optional: the first write creates the sheet with its header row
+    const ensureSheet = async (): Promise<number> => {
+        if (sheetIds[table.sheetName] !== undefined) return sheetIds[table.sheetName];
+        const response = await sheets().batchUpdate({
+            spreadsheetId,
+            resource: { requests: [{ addSheet: { properties: { title: table.sheetName } } }] },
+        });
+        const sheetId = response.result.replies[0].addSheet.properties.sheetId;
+        sheetIds[table.sheetName] = sheetId;
+        await sheets().values.update({
+            spreadsheetId,
+            range: `${table.sheetName}!A1:${lastColumn}1`,
+            valueInputOption: 'RAW',
+            resource: { values: [table.headers] },
+        });
+        return sheetId;
+    };
+
+    const findRowIndex = (rows: any[][], id: string): number => rows.findIndex(row => row[0] === id) + 1;
+
+    return {
+        async list() {
+            return (await readRows())
+                .filter(row => row[0] && row[0] !== table.headers[0])
+                .map(row => table.fromRow(row));
+        },
+
+        async save(record) {
+            await ensureSheet();
+            const rowIndex = findRowIndex(await readRows(), record.id);
+            // RAW keeps dates and lists as plain text instead of letting Sheets reformat them
+            if (rowIndex > 0) {
+                await sheets().values.update({
+                    spreadsheetId,
+                    range: `${table.sheetName}!A${rowIndex}:${lastColumn}${rowIndex}`,
+                    valueInputOption: 'RAW',
+                    resource: { values: [table.toRow(record)] },
+                });
+            } else {
+                await sheets().values.append({
+                    spreadsheetId,
+                    range,
+                    valueInputOption: 'RAW',
+                    resource: { values: [table.toRow(record)] },
+                });
+            }
+        },
+
+        async remove(id) {
+            const rowIndex = findRowIndex(await readRows(), id);
+            if (rowIndex === 0) return;
+            await sheets().batchUpdate({
+                spreadsheetId,
+                resource: {
+                    requests: [{
+                        deleteDimension: {
+                            range: { sheetId: sheetIds[table.sheetName], dimension: 'ROWS', startIndex: rowIndex - 1, endIndex: rowIndex },
+                        },
+                    }],
+                },
+            });
+        },
+    };
+};
+
+// Looks up the sheet ids of the spreadsheet and builds the Sheets-backed repositories
+export const connectSheetsStore = async (spreadsheetId: string): Promise<DataStore> => {
+    const metaResponse = await sheets().get({ spreadsheetId });
+    const sheetIds: { [key: string]: number } = {};
+    metaResponse.result.sheets.forEach((s: any) => { sheetIds[s.properties.title] = s.properties.sheetId; });
+
+    let outbox: Outbox | undefined;
+    let outboxError: string | undefined;
+    try {
+        outbox = createOutbox(await openLocalDatabase(), spreadsheetId);
+    } catch (err) {
+        // Without IndexedDB (e.g. some private browsing modes) writes simply go straight to the sheet
+        console.error("Error opening offline outbox:", err);
+        outboxError = getErrorMessage(err);
+    }
+
+    return {
+        // Dates typed into the sheet by hand follow the spreadsheet's locale
+        transactions: createSheetsTransactionRepository(spreadsheetId, sheetIds[TRANSACTIONS_SHEET_NAME], getLocaleDateOrder(metaResponse.result.properties?.locale)),
+        config: createSheetsConfigRepository(spreadsheetId),
+        recurring: createSheetsRecordRepository(spreadsheetId, RECURRING_TABLE, sheetIds),
+        rates: createSheetsRecordRepository(spreadsheetId, RATES_TABLE, sheetIds),
+        rollovers: createSheetsRecordRepository(spreadsheetId, ROLLOVERS_TABLE, sheetIds),
+        goals: createSheetsRecordRepository(spreadsheetId, GOALS_TABLE, sheetIds),
+        debts: createSheetsRecordRepository(spreadsheetId, DEBTS_TABLE, sheetIds),
+        outbox,
+        outboxError,
+    };
+};
+
+// --- IndexedDB implementation ---
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+    new Promise((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+
+const openLocalDatabase = (): Promise<IDBDatabase> =>
+    new Promise((resolve, reject) => {
+        const request = window.indexedDB.open(LOCAL_DB_NAME, LOCAL_DB_VERSION);
+        request.onupgradeneeded = () => {
+            const db = request.result;
+            if (!db.objectStoreNames.contains(TRANSACTIONS_STORE)) {
+                db.createObjectStore(TRANSACTIONS_STORE, { keyPath: 'id' });
+            }
+            if (!db.objectStoreNames.contains(CONFIG_STORE)) {
+                db.createObjectStore(CONFIG_STORE, { keyPath: 'key' });
+            }
+            if (!db.objectStoreNames.contains(OUTBOX_STORE)) {
+                db.createObjectStore(OUTBOX_STORE, { keyPath: 'id', autoIncrement: true });
+            }
+            RECORD_TABLES.forEach(table => {
+                if (!db.objectStoreNames.contains(table.storeName)) {
+                    db.createObjectStore(table.storeName, { keyPath: 'id' });
+                }
+            });
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+
+// Runs a single-store transaction and resolves once it has been committed
+const withStore = <T>(db: IDBDatabase, storeName: string, mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T> | void): Promise<T | undefined> =>
+    new Promise((resolve, reject) => {
+        const transaction = db.transaction(storeName, mode);
+        const request = run(transaction.objectStore(storeName));
+        transaction.oncomplete = () => resolve(request ? request.result : undefined);
+        transaction.onerror = () => reject(transaction.error);
+        transaction.onabort = () => reject(transaction.error);
+    });
+
+const createLocalTransactionRepository = (db: IDBDatabase): TransactionRepository => ({
+    async list() {
+        const store = db.transaction(TRANSACTIONS_STORE, 'readonly').objectStore(TRANSACTIONS_STORE);
+        return requestToPromise<Transaction[]>(store.getAll());
+    },
+
+    // Records are written by the app itself, so there is nothing to quarantine
+    async load() {
+        return { transactions: await this.list(), quarantined: [] };
+    },
+
+    async add(tx) {
+        // rowIndex only has a meaning for the Sheets backend
+        const { rowIndex, ...record } = tx;
+        await withStore(db, TRANSACTIONS_STORE, 'readwrite', store => store.put(record));
+        return record;
+    },
+
+    async addMany(txs) {
+        const records = txs.map(({ rowIndex, ...record }) => record);
+        await withStore(db, TRANSACTIONS_STORE, 'readwrite', store => { records.forEach(record => store.put(record)); });
+        return records;
+    },
+
+    async update(tx) {
+        const { rowIndex, ...record } = tx;
+        await withStore(db, TRANSACTIONS_STORE, 'readwrite', store => store.put(record));
+        return record;
+    },
+
+    async remove(tx) {
+        await withStore(db, TRANSACTIONS_STORE, 'readwrite', store => store.delete(tx.id));
+    },
+
+    async removeMany(txs) {
+        await withStore(db, TRANSACTIONS_STORE, 'readwrite', store => { txs.forEach(tx => store.delete(tx.id)); });
+    },
+
+    async repairRow(row, tx) {
+        return this.update(tx);
+    },
+
+    // Records have no position in IndexedDB; the list is always sorted by date
+    async restore(tx) {
+        return this.add(tx);
+    },
+});
+
+const createLocalConfigRepository = (db: IDBDatabase): ConfigRepository => ({
+    async load() {
+        const store = db.transaction(CONFIG_STORE, 'readonly').objectStore(CONFIG_STORE);
+        const entries = await requestToPromise<{ key: string, value: string }[]>(store.getAll());
+        const configMap: ConfigValues = {};
+        entries.forEach(entry => { configMap[entry.key] = entry.value; });
+        return configMap;
+    },
+
+    async save(values) {
+        await withStore(db, CONFIG_STORE, 'readwrite', store => {
+            Object.keys(values).forEach(key => store.put({ key, value: values[key] }));
+        });
+    },
+});
+
+const createLocalRecordRepository = <T extends { id: string }>(db: IDBDatabase, table: RecordTable<T>): RecordRepository<T> => ({
+    async list() {
+        const store = db.transaction(table.storeName, 'readonly').objectStore(table.storeName);
+        return requestToPromise<T[]>(store.getAll());
+    },
+
+    async save(record) {
+        await withStore(db, table.storeName, 'readwrite', store => store.put(record));
+    },
+
+    async remove(id) {
+        await withStore(db, table.storeName, 'readwrite', store => store.delete(id));
+    },
+});
+
+// Outbox entries of every spreadsheet share one store and are told apart by scope
+const createOutbox = (db: IDBDatabase, scope: string): Outbox => ({
+    async list() {
+        const store = db.transaction(OUTBOX_STORE, 'readonly').objectStore(OUTBOX_STORE);
+        const entries = await requestToPromise<OutboxEntry[]>(store.getAll());
+        return entries.filter(entry => entry.scope === scope);
+    },
+
+    async enqueue(operation, transaction, base) {
+        const entry: OutboxEntry = {
+            scope,
+            operation,
+            transaction,
+            base,
+            createdAt: new Date().toISOString(),
+            attempts: 0,
+            status: OutboxStatus.PENDING,
+        };
+        const id = await withStore(db, OUTBOX_STORE, 'readwrite', store => store.add(entry));
+        return { ...entry, id: id as number };
+    },
+
+    async update(entry) {
+        await withStore(db, OUTBOX_STORE, 'readwrite', store => store.put(entry));
+    },
+
+    async remove(entryId) {
+        await withStore(db, OUTBOX_STORE, 'readwrite', store => store.delete(entryId));
+    },
+});
+
+// Opens the browser-local database so the tracker can run without a Google Cloud project
+export const openLocalStore = async (): Promise<DataStore> => {
+    const db = await openLocalDatabase();
+    return {
+        transactions: createLocalTransactionRepository(db),
+        config: createLocalConfigRepository(db),
+        recurring: createLocalRecordRepository(db, RECURRING_TABLE),
+        rates: createLocalRecordRepository(db, RATES_TABLE),
+        rollovers: createLocalRecordRepository(db, ROLLOVERS_TABLE),
+        goals: createLocalRecordRepository(db, GOALS_TABLE),
+        debts: createLocalRecordRepository(db, DEBTS_TABLE),
+    };
+};
@@ -0,0 +1,110 @@
+import { Transaction, TransactionType, Debt, DebtDirection, AmortizationRow, DebtBalanceStep, DebtStatus } from './types';
+import { addMonthsToKey } from './period';
+
+const SETTLED_EPSILON = 0.005;
+
+// Money we owe is paid back with an expense, money we lent comes back as income
+export const getRepaymentType = (debt: Debt): TransactionType =>
+    debt.direction === DebtDirection.BORROWED ? TransactionType.EXPENSE : TransactionType.INCOME;
+
+// Equal monthly installments (annuity) over the term, interest charged monthly on what is left.
+// The last installment absorbs rounding so the balance ends at exactly 0.
+export const buildAmortizationSchedule = (debt: Debt): AmortizationRow[] => {
+    const months = Math.max(1, Math.round(debt.termMonths));
+    const rate = debt.annualRate / 100 / 12;
+    const payment = rate > 0
+        ? debt.principal * rate / (1 - Math.pow(1 + rate, -months))
+        : debt.principal / months;
+
+    const rows: AmortizationRow[] = [];
+    let balance = debt.principal;
+    for (let number = 1; number <= months; number++) {
+        const interest = balance * rate;
+        const principal = number === months ? balance : Math.min(balance, payment - interest);
+        balance -= principal;
+        rows.push({
+            number,
+            date: addMonthsToKey(debt.startDate, number),
+            payment: principal + interest,
+            interest,
+            principal,
+            balance: Math.max(0, balance),
+        });
+    }
+    return rows;
+};
+
+// Replays repayments against the same monthly amortization the schedule uses: on each due date
+// a month of interest is charged on what was owed after the previous due date, and repayments
+// reduce the balance on the day they are made. A debt repaid exactly on schedule therefore
+// follows the schedule's balances. Repayments made before the start date count from the start.
+const replayOutstanding = (debt: Debt, repayments: { date: string, amount: number }[], until: string): DebtBalanceStep[] => {
+    if (!debt.startDate || debt.startDate > until) return [];
+    const rate = debt.annualRate / 100 / 12;
+    const steps: DebtBalanceStep[] = [];
+    let balance = debt.principal;
+    let opening = balance;
+    let next = 0;
+
+    const record = (date: string) => {
+        const last = steps[steps.length - 1];
+        if (last && last.date === date) last.outstanding = balance;
+        else steps.push({ date, outstanding: balance });
+    };
+    const repayUntil = (date: string, inclusive: boolean) => {
+        for (; next < repayments.length && (inclusive ? repayments[next].date <= date : repayments[next].date < date); next++) {
+            // Float residue from following the schedule to the end is treated as paid off
+            balance = balance - repayments[next].amount < SETTLED_EPSILON ? 0 : balance - repayments[next].amount;
+            record(repayments[next].date < debt.startDate ? debt.startDate : repayments[next].date);
+        }
+    };
+
+    record(debt.startDate);
+    for (let month = 1; ; month++) {
+        const due = addMonthsToKey(debt.startDate, month);
+        if (due > until) break;
+        repayUntil(due, false);
+        if (balance > 0) balance += opening * rate;
+        repayUntil(due, true);
+        record(due);
+        opening = balance;
+    }
+    repayUntil(until, true);
+    return steps;
+};
+
+// Recomputes every debt from the repayment transactions linked to it. Repayments dated after
+// today are not counted yet. amountIn converts a transaction to the debt's currency.
+export const computeDebtStatus = (
+    debts: Debt[],
+    transactions: Transaction[],
+    amountIn: (tx: Transaction, currency: string) => number,
+    today: string,
+): DebtStatus[] => debts.map(debt => {
+    const repayments = transactions
+        .filter(tx => tx.debt === debt.id && tx.type === getRepaymentType(debt) && tx.date.substring(0, 10) <= today)
+        .map(tx => ({ date: tx.date.substring(0, 10), amount: amountIn(tx, debt.currency) }))
+        .sort((a, b) => a.date.localeCompare(b.date));
+    const history = replayOutstanding(debt, repayments, today);
+    const outstanding = history.length > 0 ? history[history.length - 1].outstanding : 0;
+
+    const schedule = buildAmortizationSchedule(debt);
+    return {
+        debt,
+        schedule,
+        repaid: repayments.reduce((sum, repayment) => sum + repayment.amount, 0),
+        outstanding,
+        history,
+        nextInstallment: outstanding > 0 || debt.startDate > today ? schedule.find(row => row.date > today) : undefined,
+    };
+});
+
+// Net effect of the debts on net worth, in the base currency: what we owe counts against it,
+// what others owe us counts towards it
+export const sumDebtBalances = (statuses: DebtStatus[], toBase: (amount: number, currency: string) => number): { owed: number, receivable: number } =>
+    statuses.reduce((totals, status) => {
+        const amount = toBase(status.outstanding, status.debt.currency);
+        return status.debt.direction === DebtDirection.BORROWED
+            ? { ...totals, owed: totals.owed + amount }
+            : { ...totals, receivable: totals.receivable + amount };
+    }, { owed: 0, receivable: 0 });
@@ -0,0 +1,237 @@
+import { Transaction, TransactionType, DebtDirection, ConfigValues, RecurringTemplate, ExchangeRate, RolloverEntry, SavingsGoal, Debt, BudgetPeriod, PeriodSettings } from './types';
+import { processMonthlyData, processDailyData } from './reports';
+import { getPeriod, describePeriod } from './period';
+import { createWorkbook } from './xlsx';
+import { SCHEMA_VERSION_KEY } from './schema';
+
+const BACKUP_FORMAT = 'personal-finance-tracker-backup';
+const BACKUP_VERSION = 1;
+
+// Everything needed to rebuild the tracker's data in another spreadsheet or browser
+export interface BackupBundle {
+    format: typeof BACKUP_FORMAT;
+    version: number;
+    exportedAt: string; // ISO timestamp
+    transactions: Transaction[];
+    config: ConfigValues;
+    recurring: RecurringTemplate[];
+    rates: ExchangeRate[];
+    rollovers: RolloverEntry[];
+    goals: SavingsGoal[];
+    debts: Debt[];
+}
+
+export interface ExportFilter {
+    from: string; // "YYYY-MM-DD", empty for no lower bound
+    to: string; // "YYYY-MM-DD", inclusive, empty for no upper bound
+    type: TransactionType | '';
+}
+
+const TRANSACTION_COLUMNS = ['id', 'date', 'description', 'amount', 'currency', 'type', 'source', 'destination', 'category', 'tags', 'goal', 'debt'];
+
+export const filterTransactions = (transactions: Transaction[], filter: ExportFilter): Transaction[] =>
+    transactions.filter(tx => {
+        const day = tx.date.substring(0, 10);
+        return (!filter.from || day >= filter.from)
+            && (!filter.to || day <= filter.to)
+            && (!filter.type || tx.type === filter.type);
+    });
+
+// rowIndex is a detail of the Sheets backend and meaningless in a file
+const stripRowIndex = ({ rowIndex, ...tx }: Transaction): Transaction => tx;
+
+// Descriptions and tags come from bank files and other users; text that Excel or Sheets would
+// read as a formula is prefixed with an apostrophe so it opens as plain text. Numbers are left alone.
+const neutralizeFormula = (value: string | number): string | number =>
+    typeof value === 'string' && /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+
+const transactionToCells = (tx: Transaction, currency: string): (string | number)[] => [
+    tx.id,
+    tx.date,
+    tx.description,
+    tx.amount,
+    currency,
+    tx.type,
+    tx.source,
+    tx.destination || '',
+    tx.category || '',
+    (tx.tags || []).join(', '),
+    tx.goal || '',
+    tx.debt || '',
+].map(neutralizeFormula);
+
+const escapeCsvCell = (value: string | number): string => {
+    const text = String(value);
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// getCurrency fills in the currency of transactions saved before currencies existed
+export const transactionsToCsv = (transactions: Transaction[], getCurrency: (tx: Transaction) => string): string =>
+    // The BOM makes Excel open the file as UTF-8 so Vietnamese text survives
+    '\uFEFF' + [TRANSACTION_COLUMNS, ...transactions.map(tx => transactionToCells(tx, getCurrency(tx)))]
+        .map(row => row.map(escapeCsvCell).join(','))
+        .join('\r\n');
+
+export const transactionsToJson = (transactions: Transaction[]): string =>
+    JSON.stringify(transactions.map(stripRowIndex), null, 2);
+
+export const createBackupBundle = (transactions: Transaction[], config: ConfigValues, recurring: RecurringTemplate[], rates: ExchangeRate[], rollovers: RolloverEntry[], goals: SavingsGoal[], debts: Debt[]): BackupBundle => ({
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    exportedAt: new Date().toISOString(),
+    transactions: transactions.map(stripRowIndex),
+    config,
+    recurring,
+    rates,
+    rollovers,
+    goals,
+    debts,
+});
+
+// Spreadsheet report: the transactions with their original amounts, plus the per-period and daily
+// aggregates computed from reportTransactions (amounts already converted to the base currency)
+export const createReportWorkbook = (transactions: Transaction[], reportTransactions: Transaction[], getCurrency: (tx: Transaction) => string, baseCurrency: string, settings: PeriodSettings): Blob => {
+    const monthly = processMonthlyData(reportTransactions, settings);
+    const periods = new Map<string, BudgetPeriod>();
+    reportTransactions.forEach(tx => {
+        const period = getPeriod(tx.date, settings);
+        periods.set(period.key, period);
+    });
+    const sortedPeriods = Array.from(periods.values()).sort((a, b) => a.key.localeCompare(b.key));
+
+    return createWorkbook([
+        {
+            name: 'Giao dịch',
+            rows: [TRANSACTION_COLUMNS, ...transactions.map(tx => transactionToCells(tx, getCurrency(tx)))],
+        },
+        {
+            name: 'Theo kỳ',
+            rows: [
+                ['period', `income (${baseCurrency})`, `expense (${baseCurrency})`, `net (${baseCurrency})`, 'savings rate (%)'],
+                ...monthly.map(data => [data.month, data.income, data.expense, data.net, data.savingsRate === null ? '' : Math.round(data.savingsRate * 10) / 10]),
+            ],
+        },
+        {
+            name: 'Theo ngày',
+            rows: [
+                ['period', 'day', `expense (${baseCurrency})`],
+                ...sortedPeriods.flatMap(period => processDailyData(reportTransactions, period).map(data => [describePeriod(period), data.day, data.expense])),
+            ],
+        },
+    ]);
+};
+
+// --- Restore ---
+
+// Bookkeeping the app keeps about the spreadsheet itself rather than user settings. Restoring an
+// older value would re-run migrations on migrated data or settle periods a second time.
+const INTERNAL_CONFIG_KEYS = [SCHEMA_VERSION_KEY, 'LAST_ROLLOVER_MONTH'];
+
+// The part of a backup's config that is safe to write over the current one
+export const getRestorableConfig = (config: ConfigValues): ConfigValues => {
+    const restorable: ConfigValues = {};
+    Object.keys(config)
+        .filter(key => !INTERNAL_CONFIG_KEYS.includes(key))
+        .forEach(key => { restorable[key] = config[key]; });
+    return restorable;
+};
+
+const isValidDate = (value: unknown): boolean => typeof value === 'string' && !isNaN(new Date(value).getTime());
+const isOptionalString = (value: unknown): boolean => value === undefined || value === null || typeof value === 'string';
+
+// Returns the problems with one transaction, empty when it matches the Transaction schema
+const validateTransaction = (tx: any): string[] => {
+    const problems: string[] = [];
+    if (typeof tx !== 'object' || tx === null) return ['không phải là đối tượng'];
+    if (typeof tx.id !== 'string' || !tx.id.trim()) problems.push('thiếu id');
+    if (!isValidDate(tx.date)) problems.push('ngày không hợp lệ');
+    if (typeof tx.description !== 'string') problems.push('thiếu mô tả');
+    if (typeof tx.amount !== 'number' || !isFinite(tx.amount) || tx.amount <= 0) problems.push('số tiền không hợp lệ');
+    if (!Object.values(TransactionType).includes(tx.type)) problems.push('loại giao dịch không hợp lệ');
+    if (typeof tx.source !== 'string' || !tx.source) problems.push('thiếu tài khoản');
+    if (!isOptionalString(tx.destination) || !isOptionalString(tx.category) || !isOptionalString(tx.currency) || !isOptionalString(tx.goal) || !isOptionalString(tx.debt)) problems.push('trường tùy chọn sai kiểu');
+    if (tx.type === TransactionType.TRANSFER && !tx.destination) problems.push('chuyển khoản thiếu tài khoản đích');
+    if (tx.tags !== undefined && !(Array.isArray(tx.tags) && tx.tags.every((tag: unknown) => typeof tag === 'string'))) problems.push('thẻ không hợp lệ');
+    return problems;
+};
+
+// Parses and validates a backup file. Nothing is returned unless the whole bundle is valid,
+// so a restore never writes half of a damaged file.
+export const parseBackupBundle = (text: string): { bundle?: BackupBundle, errors: string[] } => {
+    let data: any;
+    try {
+        data = JSON.parse(text);
+    } catch {
+        return { errors: ['Tệp không phải là JSON hợp lệ.'] };
+    }
+
+    const errors: string[] = [];
+    if (data?.format !== BACKUP_FORMAT) errors.push('Tệp không phải là bản sao lưu của ứng dụng.');
+    else if (typeof data.version !== 'number' || data.version > BACKUP_VERSION) errors.push('Bản sao lưu được tạo bởi phiên bản mới hơn của ứng dụng.');
+    if (errors.length > 0) return { errors };
+
+    if (!Array.isArray(data.transactions)) errors.push('Thiếu danh sách giao dịch.');
+    if (typeof data.config !== 'object' || data.config === null || Object.values(data.config).some(value => typeof value !== 'string')) {
+        errors.push('Phần cấu hình không hợp lệ.');
+    }
+    const recurring = data.recurring ?? [];
+    const rates = data.rates ?? [];
+    const rollovers = data.rollovers ?? []; // Missing from backups made before the rollover ledger
+    const goals = data.goals ?? [];
+    const debts = data.debts ?? [];
+    if (!Array.isArray(recurring) || recurring.some((template: any) => typeof template?.id !== 'string' || !isValidDate(template.startDate))) {
+        errors.push('Danh sách giao dịch định kỳ không hợp lệ.');
+    }
+    if (!Array.isArray(rates) || rates.some((rate: any) => typeof rate?.id !== 'string' || typeof rate.from !== 'string' || typeof rate.to !== 'string' || !(rate.rate > 0))) {
+        errors.push('Bảng tỷ giá không hợp lệ.');
+    }
+    if (!Array.isArray(rollovers) || rollovers.some((entry: any) => typeof entry?.id !== 'string' || typeof entry.period !== 'string' || typeof entry.accountAmount !== 'number')) {
+        errors.push('Lịch sử quyết toán không hợp lệ.');
+    }
+    if (!Array.isArray(goals) || goals.some((goal: any) => typeof goal?.id !== 'string' || typeof goal.name !== 'string' || !(goal.targetAmount > 0) || !isValidDate(goal.targetDate))) {
+        errors.push('Danh sách mục tiêu tiết kiệm không hợp lệ.');
+    }
+    if (!Array.isArray(debts) || debts.some((debt: any) => typeof debt?.id !== 'string' || !Object.values(DebtDirection).includes(debt.direction) || !(debt.principal > 0) || !(debt.termMonths >= 1) || !isValidDate(debt.startDate))) {
+        errors.push('Danh sách khoản vay không hợp lệ.');
+    }
+
+    if (Array.isArray(data.transactions)) {
+        const seenIds = new Set<string>();
+        data.transactions.forEach((tx: any, index: number) => {
+            const problems = validateTransaction(tx);
+            if (problems.length === 0 && seenIds.has(tx.id)) problems.push('trùng id');
+            if (problems.length > 0) errors.push(`Giao dịch ${index + 1}${tx?.id ? ` (${tx.id})` : ''}: ${problems.join(', ')}.`);
+            else seenIds.add(tx.id);
+        });
+    }
+
+    if (errors.length > 0) return { errors };
+    return {
+        bundle: {
+            format: BACKUP_FORMAT,
+            version: data.version,
+            exportedAt: data.exportedAt,
+            transactions: data.transactions.map((tx: any) => stripRowIndex({ ...tx, tags: tx.tags || [] })),
+            config: data.config,
+            recurring,
+            rates,
+            rollovers,
+            goals,
+            debts,
+        },
+        errors,
+    };
+};
+
+// Saves a file through a temporary download link
+export const downloadFile = (fileName: string, content: Blob | string, type = 'text/plain;charset=utf-8') => {
+    const blob = typeof content === 'string' ? new Blob([content], { type }) : content;
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = fileName;
+    document.body.appendChild(link);
+    link.click();
+    link.remove();
+    URL.revokeObjectURL(url);
+};
@@ -0,0 +1,163 @@
+import { Transaction, TransactionType, TransactionSource, RecurringTemplate, BudgetPeriod, PeriodSettings, DailyData, ForecastDay } from './types';
+import { processDailyData } from './reports';
+import { shiftPeriod, getPeriod, getPeriodProgress, formatPeriodDay } from './period';
+import { listOccurrences, isOccurrenceId, toDateKey, parseDateKey } from './recurring';
+
+// How many earlier periods feed the daily spending pattern
+const HISTORY_PERIODS = 6;
+// Relative width of the band when there is too little history to measure the spread
+const DEFAULT_SPREAD = 0.3;
+
+export interface PeriodForecast {
+    currentRate: number; // Day-to-day spending per day so far this period
+    dailyRate: number; // Expected day-to-day spending per remaining day
+    historyPeriods: number; // Earlier periods the pattern was drawn from
+    recurringUsed: number; // Known recurring expenses and transfers out of the main account still due
+    projectedUsed: number; // What the "Đã dùng" figure is expected to reach by the end of the period
+    projectedUsedLow: number;
+    projectedUsedHigh: number;
+    projectedBalances: { [accountId: string]: number };
+    days: ForecastDay[]; // One entry per remaining day, expenses only, for the daily chart
+}
+
+interface UpcomingItem {
+    date: string;
+    template: RecurringTemplate;
+    amount: number;
+}
+
+const addDays = (key: string, days: number): string => {
+    const date = parseDateKey(key);
+    date.setDate(date.getDate() + days);
+    return toDateKey(date);
+};
+
+const sum = (values: number[]): number => values.reduce((total, value) => total + value, 0);
+
+const standardDeviation = (values: number[]): number => {
+    const mean = sum(values) / values.length;
+    return Math.sqrt(sum(values.map(value => (value - mean) ** 2)) / values.length);
+};
+
+// Same rule as the "Đã dùng" figure on the dashboard
+const countsAsUsed = (template: RecurringTemplate): boolean =>
+    template.type === TransactionType.EXPENSE
+    || (template.type === TransactionType.TRANSFER && template.source === TransactionSource.GENERAL);
+
+// Expenses per day over days `fromDay` to `toDay` (1-based, inclusive) of a period
+const spendingRate = (daily: DailyData[], period: BudgetPeriod, fromDay: number, toDay: number): number => {
+    const days = toDay - fromDay + 1;
+    if (days <= 0) return 0;
+    const spent = sum(daily
+        .filter(item => {
+            const day = getPeriodProgress(period, item.date).elapsedDays;
+            return day >= fromDay && day <= toDay;
+        })
+        .map(item => item.expense));
+    return spent / days;
+};
+
+// Projects the rest of the period from three sources: the spending rate so far, what was spent over
+// the same stretch of earlier periods, and the recurring items still scheduled. Recurring occurrences
+// already booked are left out of both rates so they are not counted twice. Amounts are in the base
+// currency; `usedToDate` is the dashboard's "Đã dùng" figure and `balances` the current balances.
+export const forecastPeriod = (
+    transactions: Transaction[],
+    templates: RecurringTemplate[],
+    templateAmount: (template: RecurringTemplate, date: string) => number,
+    balances: { [accountId: string]: number },
+    usedToDate: number,
+    period: BudgetPeriod,
+    today: string,
+    settings: PeriodSettings,
+): PeriodForecast => {
+    const { totalDays, elapsedDays } = getPeriodProgress(period, today);
+    const remainingDays = totalDays - elapsedDays;
+    const dayToDay = transactions.filter(tx => !isOccurrenceId(tx.id));
+
+    const currentRate = spendingRate(processDailyData(dayToDay, period), period, 1, elapsedDays);
+
+    const firstKey = transactions.reduce((first, tx) => {
+        const day = tx.date.substring(0, 10);
+        return !first || day < first ? day : first;
+    }, '');
+    const firstPeriodKey = firstKey ? getPeriod(firstKey, settings).key : period.key;
+    const historicalRates: number[] = [];
+    for (let back = 1; back <= HISTORY_PERIODS; back++) {
+        const past = shiftPeriod(period, -back, settings);
+        if (past.key < firstPeriodKey) break;
+        const pastDays = getPeriodProgress(past, past.key).totalDays;
+        if (pastDays <= elapsedDays) continue;
+        historicalRates.push(spendingRate(processDailyData(dayToDay, past), past, elapsedDays + 1, pastDays));
+    }
+
+    // Early in the period the history says more than a few days of spending; late in it, the reverse
+    const weight = totalDays > 0 ? elapsedDays / totalDays : 1;
+    const dailyRate = historicalRates.length > 0
+        ? weight * currentRate + (1 - weight) * sum(historicalRates) / historicalRates.length
+        : currentRate;
+    const samples = elapsedDays > 0 ? [currentRate, ...historicalRates] : historicalRates;
+    const spread = samples.length >= 2 ? standardDeviation(samples) : dailyRate * DEFAULT_SPREAD;
+    const lowRate = Math.max(0, dailyRate - spread);
+    const highRate = dailyRate + spread;
+
+    const tomorrow = addDays(today.substring(0, 10), 1);
+    const lastDay = addDays(period.endKey, -1);
+    const upcoming: UpcomingItem[] = remainingDays > 0
+        ? templates
+            .filter(template => !template.paused)
+            .flatMap(template => listOccurrences(template, tomorrow, lastDay)
+                .map(date => ({ date, template, amount: templateAmount(template, date) })))
+        : [];
+
+    const days: ForecastDay[] = [];
+    for (let offset = 0; offset < remainingDays; offset++) {
+        const date = addDays(tomorrow, offset);
+        const recurringExpense = sum(upcoming
+            .filter(item => item.date === date && item.template.type === TransactionType.EXPENSE)
+            .map(item => item.amount));
+        days.push({
+            date,
+            day: formatPeriodDay(date),
+            expected: dailyRate + recurringExpense,
+            low: lowRate + recurringExpense,
+            high: highRate + recurringExpense,
+        });
+    }
+
+    const recurringUsed = sum(upcoming.filter(item => countsAsUsed(item.template)).map(item => item.amount));
+
+    // Day-to-day spending is assumed to come out of the main account
+    const projectedBalances = { ...balances };
+    const adjust = (accountId: string, amount: number) => {
+        projectedBalances[accountId] = (projectedBalances[accountId] || 0) + amount;
+    };
+    upcoming.forEach(({ template, amount }) => {
+        switch (template.type) {
+            case TransactionType.INCOME:
+                adjust(template.source, amount);
+                break;
+            case TransactionType.EXPENSE:
+                adjust(template.source, -amount);
+                break;
+            case TransactionType.TRANSFER:
+                if (!template.destination || template.destination === template.source) break;
+                adjust(template.source, -amount);
+                adjust(template.destination, amount);
+                break;
+        }
+    });
+    adjust(TransactionSource.GENERAL, -dailyRate * remainingDays);
+
+    return {
+        currentRate,
+        dailyRate,
+        historyPeriods: historicalRates.length,
+        recurringUsed,
+        projectedUsed: usedToDate + dailyRate * remainingDays + recurringUsed,
+        projectedUsedLow: usedToDate + lowRate * remainingDays + recurringUsed,
+        projectedUsedHigh: usedToDate + highRate * remainingDays + recurringUsed,
+        projectedBalances,
+        days,
+    };
+};
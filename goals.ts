@@ -0,0 +1,52 @@
+import { Transaction, TransactionType, TransactionSource, SavingsGoal, SavingsGoalProgress } from './types';
+import { parseDateKey } from './recurring';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const AVERAGE_MONTH_DAYS = 365.25 / 12;
+
+// Whether a transaction moves money into (1) or out of (-1) the provision account, or neither (0)
+export const getProvisionDirection = (tx: Pick<Transaction, 'type' | 'source' | 'destination'>): number => {
+    if (tx.type === TransactionType.TRANSFER) {
+        if (tx.destination === tx.source) return 0;
+        if (tx.destination === TransactionSource.PROVISION) return 1;
+        return tx.source === TransactionSource.PROVISION ? -1 : 0;
+    }
+    if (tx.source !== TransactionSource.PROVISION) return 0;
+    return tx.type === TransactionType.INCOME ? 1 : -1;
+};
+
+// Recomputes every goal from the transactions assigned to it: money moved into the provision
+// account counts towards the goal, money taken out of it for the goal counts against it.
+// amountIn converts a transaction to the provision account's currency.
+export const computeGoalProgress = (
+    goals: SavingsGoal[],
+    transactions: Transaction[],
+    amountIn: (tx: Transaction) => number,
+    today: string,
+): SavingsGoalProgress[] => {
+    const savedByGoal = new Map<string, number>();
+    transactions.forEach(tx => {
+        const direction = tx.goal ? getProvisionDirection(tx) : 0;
+        if (direction === 0) return;
+        savedByGoal.set(tx.goal as string, (savedByGoal.get(tx.goal as string) || 0) + direction * amountIn(tx));
+    });
+
+    return goals.map(goal => {
+        const saved = savedByGoal.get(goal.id) || 0;
+        const remaining = Math.max(0, goal.targetAmount - saved);
+        const daysLeft = goal.targetDate
+            ? Math.round((parseDateKey(goal.targetDate).getTime() - parseDateKey(today).getTime()) / DAY_MS)
+            : 0;
+        const monthsLeft = daysLeft > 0 ? Math.ceil(daysLeft / AVERAGE_MONTH_DAYS) : 0;
+        return {
+            goal,
+            saved,
+            remaining,
+            progress: goal.targetAmount > 0 ? Math.min(100, Math.max(0, (saved / goal.targetAmount) * 100)) : 100,
+            monthsLeft,
+            // Past the date, whatever is missing is due at once
+            requiredMonthly: monthsLeft > 0 ? remaining / monthsLeft : remaining,
+            isOverdue: daysLeft < 0 && remaining > 0,
+        };
+    });
+};
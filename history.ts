@@ -0,0 +1,41 @@
+// In-app undo/redo. Every user action that writes data is recorded as a command that knows how to
+// reverse and replay itself against the backend; the history itself is plain state.
+
+export interface Command {
+    label: string; // Shown in the toast, e.g. 'Đã xóa "Cà phê"'
+    undo(): Promise<void>;
+    redo(): Promise<void>;
+}
+
+export interface CommandHistory {
+    past: Command[]; // Oldest first; the last one is undone next
+    future: Command[]; // The first one is redone next
+}
+
+const MAX_HISTORY = 50;
+
+export const EMPTY_HISTORY: CommandHistory = { past: [], future: [] };
+
+// A new action makes whatever was undone before it impossible to redo
+export const recordCommand = (history: CommandHistory, command: Command): CommandHistory => ({
+    past: [...history.past, command].slice(-MAX_HISTORY),
+    future: [],
+});
+
+// Moves a command that has just been undone over to the redo side, or back once it has been redone.
+// The command is passed explicitly because undo and redo are asynchronous and the history may have
+// grown in the meantime.
+export const markUndone = (history: CommandHistory, command: Command): CommandHistory => ({
+    past: history.past.filter(c => c !== command),
+    future: [command, ...history.future],
+});
+
+export const markRedone = (history: CommandHistory, command: Command): CommandHistory => ({
+    past: [...history.past, command].slice(-MAX_HISTORY),
+    future: history.future.filter(c => c !== command),
+});
+
+// Ctrl+Z inside a text field belongs to the field, not to the app
+export const isTextEntryTarget = (target: EventTarget | null): boolean =>
+    target instanceof HTMLElement
+    && (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName));
@@ -0,0 +1,315 @@
+import { Transaction, TransactionType } from './types';
+import { toDateKey } from './recurring';
+
+// One statement line before it becomes a transaction
+export interface ImportedRow {
+    line: number; // 1-based line (CSV) or entry (OFX) number, for error messages
+    date: string; // "YYYY-MM-DD"
+    description: string;
+    amount: number; // Signed: negative is money going out
+    category?: string;
+    tags?: string[];
+    currency?: string;
+    externalId?: string; // The bank's own id (OFX FITID), stable across re-imports
+}
+
+export interface ParsedStatement {
+    rows: ImportedRow[];
+    errors: string[];
+}
+
+// Column index for each field, -1 when the column is not in the file. A single signed amount
+// column or separate debit/credit columns can be used.
+export interface ColumnMapping {
+    date: number;
+    description: number;
+    amount: number;
+    debit: number;
+    credit: number;
+    category: number;
+    tags: number;
+}
+
+export type DateFormat = 'DMY' | 'MDY' | 'YMD';
+
+// Same-day transactions with the same amount count as duplicates above this description similarity
+const DUPLICATE_SIMILARITY = 0.6;
+
+// --- CSV ---
+
+// Splits CSV text into rows, honouring quoted fields. The delimiter (",", ";" or tab) is
+// guessed from the first line since Vietnamese bank exports often use ";".
+export const parseCsv = (text: string): string[][] => {
+    const content = text.replace(/^\uFEFF/, '');
+    const firstLine = content.split(/\r?\n/, 1)[0] || '';
+    const delimiter = [',', ';', '\t']
+        .map(candidate => ({ candidate, count: firstLine.split(candidate).length }))
+        .sort((a, b) => b.count - a.count)[0].candidate;
+
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let field = '';
+    let inQuotes = false;
+
+    for (let i = 0; i < content.length; i++) {
+        const char = content[i];
+        if (inQuotes) {
+            if (char === '"' && content[i + 1] === '"') {
+                field += '"';
+                i++;
+            } else if (char === '"') {
+                inQuotes = false;
+            } else {
+                field += char;
+            }
+        } else if (char === '"') {
+            inQuotes = true;
+        } else if (char === delimiter) {
+            row.push(field);
+            field = '';
+        } else if (char === '\n' || char === '\r') {
+            if (char === '\r' && content[i + 1] === '\n') i++;
+            row.push(field);
+            rows.push(row);
+            row = [];
+            field = '';
+        } else {
+            field += char;
+        }
+    }
+    if (field || row.length > 0) {
+        row.push(field);
+        rows.push(row);
+    }
+
+    return rows.filter(cells => cells.some(cell => cell.trim()));
+};
+
+const HEADER_HINTS: { [field in keyof ColumnMapping]: string[] } = {
+    date: ['ngay', 'date', 'posted'],
+    description: ['mo ta', 'noi dung', 'dien giai', 'description', 'memo', 'details', 'payee'],
+    amount: ['so tien', 'amount', 'value'],
+    debit: ['ghi no', 'debit', 'rut', 'withdrawal', 'chi'],
+    credit: ['ghi co', 'credit', 'nap', 'deposit', 'thu'],
+    category: ['danh muc', 'category'],
+    tags: ['the', 'tags', 'tag'],
+};
+
+// Lowercases and strips Vietnamese diacritics so "Ngày giao dịch" matches "ngay"
+const normalizeText = (text: string): string =>
+    text.normalize('NFD').replace(/[\u0300-\u036f]/g, '').replace(/đ/gi, 'd').toLowerCase().trim();
+
+// Suggests a mapping from the header row; the user can still change every column
+export const guessColumnMapping = (headers: string[]): ColumnMapping => {
+    const normalized = headers.map(normalizeText);
+    const used = new Set<number>();
+    const find = (field: keyof ColumnMapping): number => {
+        const index = normalized.findIndex((header, i) => !used.has(i) && HEADER_HINTS[field].some(hint => ` ${header} `.includes(` ${hint} `)));
+        if (index !== -1) used.add(index);
+        return index;
+    };
+    // Most specific fields first so "Ghi nợ" is not taken as the amount column
+    const date = find('date');
+    const debit = find('debit');
+    const credit = find('credit');
+    const amount = find('amount');
+    const description = find('description');
+    const category = find('category');
+    const tags = find('tags');
+    return { date, description, amount, debit, credit, category, tags };
+};
+
+// Parses "15/03/2024", "03/15/2024", "2024-03-15" or an ISO timestamp into a "YYYY-MM-DD" key
+export const parseImportDate = (value: string, format: DateFormat): string | undefined => {
+    const text = (value || '').trim();
+    const parts = text.match(/^(\d{1,4})[/.-](\d{1,2})[/.-](\d{1,4})/);
+    if (!parts) return undefined;
+    const [first, second, third] = parts.slice(1, 4).map(part => parseInt(part, 10));
+    let year: number, month: number, day: number;
+    // A four-digit first part is always year-first, whatever format was picked
+    if (parts[1].length === 4 || format === 'YMD') [year, month, day] = [first, second, third];
+    else if (format === 'DMY') [day, month, year] = [first, second, third];
+    else [month, day, year] = [first, second, third];
+    if (year < 100) year += 2000;
+    const date = new Date(year, month - 1, day);
+    if (date.getFullYear() !== year || date.getMonth() !== month - 1 || date.getDate() !== day) return undefined;
+    return toDateKey(date);
+};
+
+// Parses amounts such as "1.234.567", "1,234.56", "-50.000 ₫" or "(200)". When only one kind of
+// separator appears once and is followed by exactly three digits it is taken as a thousands separator.
+export const parseImportAmount = (value: string): number | undefined => {
+    let text = (value || '').trim();
+    if (!text) return undefined;
+    const negative = /^\(.*\)$/.test(text) || text.includes('-');
+    text = text.replace(/[^\d.,]/g, '');
+    if (!/\d/.test(text)) return undefined;
+
+    const lastDot = text.lastIndexOf('.');
+    const lastComma = text.lastIndexOf(',');
+    let decimal: string | undefined;
+    if (lastDot !== -1 && lastComma !== -1) {
+        decimal = lastDot > lastComma ? '.' : ',';
+    } else {
+        const separator = lastDot !== -1 ? '.' : lastComma !== -1 ? ',' : undefined;
+        if (separator && text.split(separator).length === 2 && text.length - text.lastIndexOf(separator) - 1 !== 3) {
+            decimal = separator;
+        }
+    }
+
+    const thousands = decimal === '.' ? ',' : decimal === ',' ? '.' : /[.,]/g;
+    const cleaned = text.split(thousands).join('').replace(',', '.');
+    const amount = parseFloat(cleaned);
+    if (isNaN(amount)) return undefined;
+    return negative ? -amount : amount;
+};
+
+// Applies the column mapping to the CSV rows, collecting a message for every row that cannot be used
+export const mapCsvRows = (rows: string[][], mapping: ColumnMapping, dateFormat: DateFormat, hasHeader: boolean): ParsedStatement => {
+    const result: ParsedStatement = { rows: [], errors: [] };
+    const cell = (row: string[], index: number) => (index >= 0 ? (row[index] || '').trim() : '');
+
+    rows.forEach((row, index) => {
+        if (hasHeader && index === 0) return;
+        const line = index + 1;
+        const date = parseImportDate(cell(row, mapping.date), dateFormat);
+        if (!date) {
+            result.errors.push(`Dòng ${line}: ngày "${cell(row, mapping.date)}" không hợp lệ.`);
+            return;
+        }
+
+        let amount: number | undefined;
+        if (mapping.amount >= 0) {
+            amount = parseImportAmount(cell(row, mapping.amount));
+        } else {
+            const debit = parseImportAmount(cell(row, mapping.debit)) || 0;
+            const credit = parseImportAmount(cell(row, mapping.credit)) || 0;
+            amount = credit - Math.abs(debit);
+        }
+        if (amount === undefined || amount === 0) {
+            result.errors.push(`Dòng ${line}: không đọc được số tiền.`);
+            return;
+        }
+
+        const tags = cell(row, mapping.tags).split(',').map(tag => tag.trim()).filter(tag => tag);
+        result.rows.push({
+            line,
+            date,
+            description: cell(row, mapping.description) || '(không có mô tả)',
+            amount,
+            category: cell(row, mapping.category) || undefined,
+            tags: tags.length > 0 ? tags : undefined,
+        });
+    });
+
+    return result;
+};
+
+// --- OFX / QFX ---
+
+// Reads one tag value; works for both SGML (OFX 1.x, no closing tags) and XML (OFX 2.x) files
+const readOfxTag = (block: string, tag: string): string | undefined => {
+    const match = block.match(new RegExp(`<${tag}>([^<\\r\\n]*)`, 'i'));
+    return match ? match[1].trim() : undefined;
+};
+
+// Decodes the few XML entities banks put in payee names
+const decodeOfxText = (text: string): string =>
+    text.replace(/&lt;/g, '<').replace(/&gt;/g, '>').replace(/&quot;/g, '"').replace(/&apos;/g, "'").replace(/&amp;/g, '&');
+
+export const parseOfx = (text: string): ParsedStatement => {
+    const result: ParsedStatement = { rows: [], errors: [] };
+    const currency = readOfxTag(text, 'CURDEF');
+    const blocks = text.split(/<STMTTRN>/i).slice(1).map(block => block.split(/<\/STMTTRN>/i)[0]);
+
+    if (blocks.length === 0) {
+        result.errors.push('Không tìm thấy giao dịch nào trong tệp OFX/QFX.');
+        return result;
+    }
+
+    blocks.forEach((block, index) => {
+        const line = index + 1;
+        const posted = readOfxTag(block, 'DTPOSTED') || '';
+        const dateMatch = posted.match(/^(\d{4})(\d{2})(\d{2})/);
+        const amount = parseFloat(readOfxTag(block, 'TRNAMT') || '');
+        if (!dateMatch || isNaN(amount) || amount === 0) {
+            result.errors.push(`Giao dịch ${line}: thiếu ngày hoặc số tiền.`);
+            return;
+        }
+        const name = readOfxTag(block, 'NAME');
+        const memo = readOfxTag(block, 'MEMO');
+        result.rows.push({
+            line,
+            date: `${dateMatch[1]}-${dateMatch[2]}-${dateMatch[3]}`,
+            description: decodeOfxText([name, memo].filter(part => part).join(' - ') || '(không có mô tả)'),
+            amount,
+            currency,
+            externalId: readOfxTag(block, 'FITID'),
+        });
+    });
+
+    return result;
+};
+
+// --- Duplicate detection ---
+
+const bigrams = (text: string): string[] => {
+    const compact = normalizeText(text).replace(/\s+/g, ' ');
+    const pairs: string[] = [];
+    for (let i = 0; i < compact.length - 1; i++) pairs.push(compact.substring(i, i + 2));
+    return pairs;
+};
+
+// Dice coefficient over character bigrams: 1 for identical descriptions, 0 for nothing in common
+export const descriptionSimilarity = (a: string, b: string): number => {
+    const first = bigrams(a);
+    const second = bigrams(b);
+    if (first.length === 0 || second.length === 0) return normalizeText(a) === normalizeText(b) ? 1 : 0;
+    const counts = new Map<string, number>();
+    first.forEach(pair => counts.set(pair, (counts.get(pair) || 0) + 1));
+    let shared = 0;
+    second.forEach(pair => {
+        const count = counts.get(pair) || 0;
+        if (count > 0) {
+            shared++;
+            counts.set(pair, count - 1);
+        }
+    });
+    return (2 * shared) / (first.length + second.length);
+};
+
+// The existing transaction this row most likely duplicates: the same bank id, or the same
+// date and amount with a similar description
+const findDuplicate = (row: ImportedRow, existing: Transaction[]): Transaction | undefined =>
+    existing.find(tx =>
+        (row.externalId !== undefined && tx.id === getImportedId(row))
+        || (tx.date.substring(0, 10) === row.date
+            && tx.amount === Math.abs(row.amount)
+            && descriptionSimilarity(tx.description, row.description) >= DUPLICATE_SIMILARITY));
+
+// Likely duplicate for each row, checked against the existing transactions and the rows before
+// it in the same file (statements that overlap themselves, or a file exported twice into one)
+export const findDuplicates = (rows: ImportedRow[], existing: Transaction[]): (Transaction | undefined)[] => {
+    const earlier: Transaction[] = [];
+    return rows.map((row, index) => {
+        const duplicate = findDuplicate(row, existing) || findDuplicate(row, earlier);
+        earlier.push(createImportedTransaction(row, '', row.currency || '', `row-${index}`));
+        return duplicate;
+    });
+};
+
+// Rows with a bank id get a deterministic transaction id, so importing the same statement twice is detectable
+const getImportedId = (row: ImportedRow): string | undefined =>
+    row.externalId ? `ofx-${row.externalId.replace(/[^\w-]/g, '')}` : undefined;
+
+export const createImportedTransaction = (row: ImportedRow, source: string, currency: string, fallbackId: string): Transaction => ({
+    id: getImportedId(row) || fallbackId,
+    date: new Date(row.date).toISOString(),
+    description: row.description,
+    amount: Math.abs(row.amount),
+    currency: row.currency || currency,
+    type: row.amount < 0 ? TransactionType.EXPENSE : TransactionType.INCOME,
+    source,
+    category: row.category,
+    tags: row.tags,
+});
@@ -0,0 +1,139 @@
+import { Account, Transaction, TransactionType, RolloverEntry, BalanceHistoryPoint, BalanceMarker, BalanceMarkerKind, DebtDirection, DebtStatus } from './types';
+import { isActiveRollover } from './rollover';
+import { toDateKey, parseDateKey } from './recurring';
+import { describePeriod } from './period';
+
+// A transfer is marked when it moves at least this share of what its source account held before it
+const LARGE_TRANSFER_SHARE = 0.25;
+
+// A change to one account on a given day, in the account's own currency
+interface BalanceChange {
+    accountId: string;
+    amount: number;
+}
+
+interface BalanceEvent {
+    date: string; // "YYYY-MM-DD"
+    changes: BalanceChange[];
+    transfer?: Transaction;
+    rollover?: RolloverEntry;
+}
+
+const toEvent = (tx: Transaction, amountIn: (tx: Transaction, accountId: string) => number): BalanceEvent | null => {
+    const date = tx.date.substring(0, 10);
+    switch (tx.type) {
+        case TransactionType.INCOME:
+            return { date, changes: [{ accountId: tx.source, amount: amountIn(tx, tx.source) }] };
+        case TransactionType.EXPENSE:
+            return { date, changes: [{ accountId: tx.source, amount: -amountIn(tx, tx.source) }] };
+        case TransactionType.TRANSFER:
+            if (!tx.destination || tx.destination === tx.source) return null;
+            return {
+                date,
+                changes: [
+                    { accountId: tx.source, amount: -amountIn(tx, tx.source) },
+                    { accountId: tx.destination, amount: amountIn(tx, tx.destination) },
+                ],
+                transfer: tx,
+            };
+    }
+    return null;
+};
+
+// Replays the initial balances, every transaction and every active rollover day by day, the same way
+// the current balances are computed, from the first event up to `until` ("YYYY-MM-DD"), or up to the
+// last event when transactions are dated later, since the current balances count those too. Each day's
+// balances are converted to the base currency at that day's rate. Accounts no longer configured are
+// left out, as they are everywhere else on the dashboard. Debts follow their own outstanding history:
+// what we owe is subtracted from the total and what others owe us is added, so the last point
+// matches the net worth card.
+export const computeBalanceHistory = (
+    accounts: Account[],
+    transactions: Transaction[],
+    rollovers: RolloverEntry[],
+    amountIn: (tx: Transaction, accountId: string) => number,
+    toBase: (amount: number, accountId: string, date: string) => number,
+    debts: DebtStatus[],
+    debtToBase: (amount: number, currency: string, date: string) => number,
+    until: string,
+): { points: BalanceHistoryPoint[], markers: BalanceMarker[] } => {
+    const events: BalanceEvent[] = [];
+    transactions.forEach(tx => {
+        const event = toEvent(tx, amountIn);
+        if (event) events.push(event);
+    });
+    // A rollover is credited on the first day of the following period
+    rollovers.filter(isActiveRollover).forEach(entry => {
+        events.push({ date: entry.periodEnd, changes: [{ accountId: entry.account, amount: entry.accountAmount }], rollover: entry });
+    });
+    events.sort((a, b) => a.date.localeCompare(b.date));
+
+    const balances: { [accountId: string]: number } = {};
+    accounts.forEach(account => { balances[account.id] = account.initialBalance; });
+
+    const points: BalanceHistoryPoint[] = [];
+    const markers: BalanceMarker[] = [];
+    // The series opens the day before the first event, showing the initial balances on their own
+    const first = debts.reduce(
+        (earliest, status) => status.history.length > 0 && status.history[0].date < earliest ? status.history[0].date : earliest,
+        events.length > 0 && events[0].date < until ? events[0].date : until,
+    );
+    const day = parseDateKey(first);
+    day.setDate(day.getDate() - 1);
+    let next = 0;
+    const nextStep = debts.map(() => 0);
+
+    const last = events.length > 0 && events[events.length - 1].date > until ? events[events.length - 1].date : until;
+
+    for (; toDateKey(day) <= last; day.setDate(day.getDate() + 1)) {
+        const date = toDateKey(day);
+        for (; next < events.length && events[next].date <= date; next++) {
+            const event = events[next];
+            if (event.transfer) {
+                const source = event.changes[0];
+                const before = balances[source.accountId] || 0;
+                if (before > 0 && -source.amount >= before * LARGE_TRANSFER_SHARE) {
+                    markers.push({
+                        date: event.date,
+                        kind: BalanceMarkerKind.LARGE_TRANSFER,
+                        label: event.transfer.description,
+                        amount: toBase(-source.amount, source.accountId, event.date),
+                        accountId: source.accountId,
+                        destination: event.transfer.destination,
+                    });
+                }
+            }
+            if (event.rollover) {
+                markers.push({
+                    date: event.date,
+                    kind: BalanceMarkerKind.ROLLOVER,
+                    label: `Quyết toán kỳ ${describePeriod({ key: event.rollover.period, endKey: event.rollover.periodEnd, label: '' })}`,
+                    amount: toBase(event.rollover.accountAmount, event.rollover.account, event.date),
+                    accountId: event.rollover.account,
+                });
+            }
+            event.changes.forEach(change => {
+                balances[change.accountId] = (balances[change.accountId] || 0) + change.amount;
+            });
+        }
+
+        const converted: { [accountId: string]: number } = {};
+        let total = 0;
+        accounts.forEach(account => {
+            converted[account.id] = toBase(balances[account.id] || 0, account.id, date);
+            total += converted[account.id];
+        });
+
+        let debtNet = 0;
+        debts.forEach((status, index) => {
+            for (; nextStep[index] < status.history.length && status.history[nextStep[index]].date <= date; nextStep[index]++);
+            // Nothing is owed before the debt starts
+            const outstanding = nextStep[index] > 0 ? status.history[nextStep[index] - 1].outstanding : 0;
+            const amount = debtToBase(outstanding, status.debt.currency, date);
+            debtNet += status.debt.direction === DebtDirection.BORROWED ? -amount : amount;
+        });
+        points.push({ date, total: total + debtNet, balances: converted, debts: debtNet });
+    }
+
+    return { points, markers };
+};
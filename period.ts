@@ -0,0 +1,105 @@
+import { BudgetPeriod, BudgetPeriodType, PeriodSettings } from './types';
+import { toDateKey, parseDateKey } from './recurring';
+
+// The 15th-to-15th cycle the tracker has always used, for spreadsheets without period settings
+export const DEFAULT_PERIOD_SETTINGS: PeriodSettings = {
+    type: BudgetPeriodType.MONTHLY,
+    startDay: 15,
+    anchorDate: '2024-01-01', // A Monday
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Whole days between two "YYYY-MM-DD" keys, counted in UTC so DST shifts never add or lose a day
+const daysBetween = (from: string, to: string): number => {
+    const [a, b] = [from, to].map(key => {
+        const [year, month, day] = key.split('-').map(part => parseInt(part, 10));
+        return Date.UTC(year, month - 1, day);
+    });
+    return Math.round((b - a) / DAY_MS);
+};
+
+const addDays = (key: string, days: number): string => {
+    const date = parseDateKey(key);
+    date.setDate(date.getDate() + days);
+    return toDateKey(date);
+};
+
+// Day N of the given month, moved back to the last day for short months
+const monthStart = (year: number, month: number, day: number): string =>
+    toDateKey(new Date(year, month, Math.min(day, new Date(year, month + 1, 0).getDate())));
+
+const formatKey = (key: string, withYear: boolean): string =>
+    withYear ? `${key.substring(8, 10)}/${key.substring(5, 7)}/${key.substring(0, 4)}` : `${key.substring(8, 10)}/${key.substring(5, 7)}`;
+
+const createPeriod = (key: string, endKey: string, settings: PeriodSettings): BudgetPeriod => ({
+    key,
+    endKey,
+    label: settings.type === BudgetPeriodType.MONTHLY && settings.startDay === 1
+        ? `${key.substring(5, 7)}/${key.substring(0, 4)}`
+        : formatKey(key, true),
+});
+
+// The period that contains a date; accepts a "YYYY-MM-DD" key or an ISO timestamp
+export const getPeriod = (date: string, settings: PeriodSettings): BudgetPeriod => {
+    const day = date.substring(0, 10);
+
+    if (settings.type === BudgetPeriodType.MONTHLY) {
+        const startDay = Math.min(31, Math.max(1, settings.startDay || 1));
+        const current = parseDateKey(day);
+        let year = current.getFullYear();
+        let month = current.getMonth();
+        if (day < monthStart(year, month, startDay)) month -= 1;
+        const start = new Date(year, month, 1);
+        year = start.getFullYear();
+        month = start.getMonth();
+        return createPeriod(monthStart(year, month, startDay), monthStart(year, month + 1, startDay), settings);
+    }
+
+    const length = settings.type === BudgetPeriodType.WEEKLY ? 7 : 14;
+    const anchor = settings.anchorDate || DEFAULT_PERIOD_SETTINGS.anchorDate;
+    const offset = Math.floor(daysBetween(anchor, day) / length) * length;
+    const start = addDays(anchor, offset);
+    return createPeriod(start, addDays(start, length), settings);
+};
+
+// The period n steps before (negative) or after (positive) the given one
+export const shiftPeriod = (period: BudgetPeriod, steps: number, settings: PeriodSettings): BudgetPeriod => {
+    let result = period;
+    for (let i = 0; i < Math.abs(steps); i++) {
+        result = getPeriod(steps > 0 ? result.endKey : addDays(result.key, -1), settings);
+    }
+    return result;
+};
+
+// Whether a transaction date (ISO timestamp or "YYYY-MM-DD") falls inside the period
+export const isInPeriod = (date: string, period: BudgetPeriod): boolean => {
+    const day = date.substring(0, 10);
+    return day >= period.key && day < period.endKey;
+};
+
+// Full range for headings, e.g. "15/01/2025 – 14/02/2025"
+export const describePeriod = (period: BudgetPeriod): string =>
+    `${formatKey(period.key, true)} – ${formatKey(addDays(period.endKey, -1), true)}`;
+
+// The same day N months later (earlier when negative), moved back to the last day for short months
+export const addMonthsToKey = (key: string, months: number): string => {
+    const date = parseDateKey(key);
+    return monthStart(date.getFullYear(), date.getMonth() + months, date.getDate());
+};
+
+// Short day label inside a period ("DD/MM"), sortable by the date key it came from
+export const formatPeriodDay = (key: string): string => formatKey(key, false);
+
+// Number of days in the period and how many of them have passed by the given date (inclusive)
+export const getPeriodProgress = (period: BudgetPeriod, date: string): { totalDays: number, elapsedDays: number } => {
+    const totalDays = daysBetween(period.key, period.endKey);
+    const elapsedDays = Math.min(totalDays, Math.max(0, daysBetween(period.key, date.substring(0, 10)) + 1));
+    return { totalDays, elapsedDays };
+};
+
+export const parsePeriodSettings = (type: string | undefined, startDay: string | undefined, anchorDate: string | undefined): PeriodSettings => ({
+    type: Object.values(BudgetPeriodType).includes(type as BudgetPeriodType) ? type as BudgetPeriodType : DEFAULT_PERIOD_SETTINGS.type,
+    startDay: Math.min(31, Math.max(1, parseInt(startDay || '', 10) || DEFAULT_PERIOD_SETTINGS.startDay)),
+    anchorDate: /^\d{4}-\d{2}-\d{2}$/.test(anchorDate || '') ? anchorDate as string : DEFAULT_PERIOD_SETTINGS.anchorDate,
+});
@@ -0,0 +1,69 @@
+import { ConnectionConfig, ConnectionProfile, StorageMode } from './types';
+
+// Saved connections live in localStorage. They only hold the API key, the OAuth client ID and the
+// spreadsheet ID, which are public identifiers of a web app; the access token never goes here,
+// it stays in sessionStorage (see components/Auth.tsx) and ends with the browser session.
+const PROFILES_STORAGE_KEY = 'pft-connection-profiles';
+const ACTIVE_PROFILE_STORAGE_KEY = 'pft-active-profile';
+
+const isValidConnection = (connection: any): connection is ConnectionConfig =>
+    connection?.mode === StorageMode.LOCAL
+    || (connection?.mode === StorageMode.SHEETS
+        && typeof connection.apiKey === 'string'
+        && typeof connection.clientId === 'string'
+        && typeof connection.spreadsheetId === 'string');
+
+// localStorage can be unavailable (some private browsing modes) or hold data from an older version;
+// both simply mean there are no saved profiles
+export const loadProfiles = (): ConnectionProfile[] => {
+    try {
+        const profiles = JSON.parse(localStorage.getItem(PROFILES_STORAGE_KEY) || '[]');
+        return Array.isArray(profiles)
+            ? profiles.filter(profile => typeof profile?.id === 'string' && isValidConnection(profile.connection))
+            : [];
+    } catch {
+        return [];
+    }
+};
+
+// Writes throw when localStorage is unavailable or full, so the caller can tell the user the
+// connection was not remembered
+const writeProfiles = (profiles: ConnectionProfile[]) => {
+    localStorage.setItem(PROFILES_STORAGE_KEY, JSON.stringify(profiles));
+};
+
+// Inserts the profile, or replaces the saved profile with the same id; returns the new list
+export const saveProfile = (profile: ConnectionProfile): ConnectionProfile[] => {
+    const profiles = [...loadProfiles().filter(p => p.id !== profile.id), profile];
+    writeProfiles(profiles);
+    return profiles;
+};
+
+export const deleteProfile = (id: string): ConnectionProfile[] => {
+    const profiles = loadProfiles().filter(p => p.id !== id);
+    writeProfiles(profiles);
+    if (getActiveProfileId() === id) setActiveProfileId(null);
+    return profiles;
+};
+
+export const getActiveProfileId = (): string | null => {
+    try {
+        return localStorage.getItem(ACTIVE_PROFILE_STORAGE_KEY);
+    } catch {
+        return null;
+    }
+};
+
+export const setActiveProfileId = (id: string | null) => {
+    if (id) localStorage.setItem(ACTIVE_PROFILE_STORAGE_KEY, id);
+    else localStorage.removeItem(ACTIVE_PROFILE_STORAGE_KEY);
+};
+
+// Connecting twice to the same spreadsheet (or to local storage) reuses its profile
+export const findMatchingProfile = (profiles: ConnectionProfile[], connection: ConnectionConfig): ConnectionProfile | undefined =>
+    profiles.find(profile => connection.mode === StorageMode.LOCAL
+        ? profile.connection.mode === StorageMode.LOCAL
+        : profile.connection.mode === StorageMode.SHEETS && profile.connection.spreadsheetId === connection.spreadsheetId);
+
+export const describeConnection = (connection: ConnectionConfig): string =>
+    connection.mode === StorageMode.LOCAL ? 'Bộ nhớ cục bộ của trình duyệt' : `Google Sheets · ${connection.spreadsheetId}`;
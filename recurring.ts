@@ -0,0 +1,114 @@
+import { Transaction, TransactionType, RecurringTemplate, RecurrenceFrequency } from './types';
+
+// Safety net against runaway schedules (e.g. a daily template started years ago)
+const MAX_OCCURRENCES = 1000;
+
+// Formats a date as a local "YYYY-MM-DD" key
+export const toDateKey = (date: Date): string =>
+    `${date.getFullYear()}-${(date.getMonth() + 1).toString().padStart(2, '0')}-${date.getDate().toString().padStart(2, '0')}`;
+
+// Parses a "YYYY-MM-DD" key as a local date (new Date(key) would treat it as UTC)
+export const parseDateKey = (key: string): Date => {
+    const [year, month, day] = key.split('-').map(part => parseInt(part, 10));
+    return new Date(year, month - 1, day);
+};
+
+const addDays = (key: string, days: number): string => {
+    const date = parseDateKey(key);
+    date.setDate(date.getDate() + days);
+    return toDateKey(date);
+};
+
+const daysInMonth = (year: number, month: number): number => new Date(year, month + 1, 0).getDate();
+
+// Day N of the given month, moved back to the last day for short months (31st -> 30th/28th)
+const clampedDate = (year: number, month: number, day: number): string =>
+    toDateKey(new Date(year, month, Math.min(day, daysInMonth(year, month))));
+
+// Lists the occurrence dates of a template between two "YYYY-MM-DD" keys, both inclusive
+export const listOccurrences = (template: RecurringTemplate, from: string, to: string, limit = MAX_OCCURRENCES): string[] => {
+    if (!template.startDate) return [];
+    const end = template.endDate && template.endDate < to ? template.endDate : to;
+    const interval = Math.max(1, template.interval || 1);
+    const start = parseDateKey(template.startDate);
+    const dates: string[] = [];
+
+    const collect = (date: string): boolean => {
+        if (date > end) return false;
+        // Clamping can map two custom days onto the same date (30th and 31st in February)
+        if (date >= from && date >= template.startDate && dates[dates.length - 1] !== date) dates.push(date);
+        return dates.length < limit;
+    };
+
+    switch (template.frequency) {
+        case RecurrenceFrequency.DAILY:
+        case RecurrenceFrequency.WEEKLY: {
+            const step = template.frequency === RecurrenceFrequency.DAILY ? interval : interval * 7;
+            for (let date = template.startDate; collect(date); date = addDays(date, step));
+            break;
+        }
+        case RecurrenceFrequency.MONTHLY: {
+            for (let n = 0; collect(clampedDate(start.getFullYear(), start.getMonth() + n * interval, start.getDate())); n++);
+            break;
+        }
+        case RecurrenceFrequency.CUSTOM_DAYS: {
+            const days = [...template.daysOfMonth].sort((a, b) => a - b);
+            if (days.length === 0) break;
+            monthLoop:
+            for (let n = 0; ; n++) {
+                const year = new Date(start.getFullYear(), start.getMonth() + n, 1).getFullYear();
+                const month = new Date(start.getFullYear(), start.getMonth() + n, 1).getMonth();
+                for (const day of days) {
+                    if (!collect(clampedDate(year, month, day))) break monthLoop;
+                }
+            }
+            break;
+        }
+    }
+
+    return dates;
+};
+
+// Occurrences that should exist by today but have not been turned into transactions yet
+export const getDueOccurrences = (template: RecurringTemplate, today: string): string[] => {
+    if (template.paused) return [];
+    const from = template.lastOccurrence ? addDays(template.lastOccurrence, 1) : template.startDate;
+    return listOccurrences(template, from, today);
+};
+
+// The next few occurrences after today, for the preview list
+export const getUpcomingOccurrences = (template: RecurringTemplate, today: string, count: number): string[] =>
+    listOccurrences(template, addDays(today, 1), addDays(today, 366 * 5), count);
+
+// The id is derived from the template and the date, so an occurrence can only ever be created once
+export const getOccurrenceId = (templateId: string, date: string): string => `rec-${templateId}-${date.replace(/-/g, '')}`;
+
+export const isOccurrenceId = (id: string): boolean => id.startsWith('rec-');
+
+export const createOccurrence = (template: RecurringTemplate, date: string): Transaction => ({
+    id: getOccurrenceId(template.id, date),
+    date: new Date(date).toISOString(),
+    description: template.description,
+    amount: template.amount,
+    currency: template.currency,
+    type: template.type,
+    source: template.source,
+    destination: template.type === TransactionType.TRANSFER ? template.destination : undefined,
+    category: template.type !== TransactionType.TRANSFER ? template.category : undefined,
+    tags: template.tags,
+});
+
+// Human-readable schedule for the template list
+export const describeSchedule = (template: RecurringTemplate): string => {
+    const interval = Math.max(1, template.interval || 1);
+    switch (template.frequency) {
+        case RecurrenceFrequency.DAILY:
+            return interval === 1 ? 'Hàng ngày' : `Mỗi ${interval} ngày`;
+        case RecurrenceFrequency.WEEKLY:
+            return interval === 1 ? 'Hàng tuần' : `Mỗi ${interval} tuần`;
+        case RecurrenceFrequency.MONTHLY:
+            return `${interval === 1 ? 'Hàng tháng' : `Mỗi ${interval} tháng`}, ngày ${parseDateKey(template.startDate).getDate()}`;
+        case RecurrenceFrequency.CUSTOM_DAYS:
+            return `Ngày ${template.daysOfMonth.join(', ')} hàng tháng`;
+    }
+};
@@ -0,0 +1,70 @@
+import { Transaction, TransactionType, MonthlyData, DailyData, BudgetPeriod, PeriodSettings } from './types';
+import { getPeriod, shiftPeriod, isInPeriod, formatPeriodDay, addMonthsToKey } from './period';
+
+// Helper function to process raw transactions into per-period summary data for the chart. The
+// series is continuous from the first period with data up to the one containing `until` (when
+// later): periods without transactions are included with zeros so the axis is a real time scale.
+export const processMonthlyData = (transactions: Transaction[], settings: PeriodSettings, until?: string): MonthlyData[] => {
+    const periodSummary: { [key: string]: { income: number, expense: number } } = {};
+
+    transactions.forEach(tx => {
+        const period = getPeriod(tx.date, settings);
+        if (!periodSummary[period.key]) {
+            periodSummary[period.key] = { income: 0, expense: 0 };
+        }
+
+        if (tx.type === TransactionType.INCOME) {
+            periodSummary[period.key].income += tx.amount;
+        } else if (tx.type === TransactionType.EXPENSE) {
+            periodSummary[period.key].expense += tx.amount;
+        }
+    });
+
+    // Period keys are start dates, so sorting them sorts the periods chronologically
+    const keys = Object.keys(periodSummary).sort();
+    if (keys.length === 0) return [];
+    const firstKey = keys[0];
+    const lastDataKey = keys[keys.length - 1];
+    const untilKey = until ? getPeriod(until, settings).key : lastDataKey;
+    const lastKey = untilKey > lastDataKey ? untilKey : lastDataKey;
+
+    const result: MonthlyData[] = [];
+    for (let period = getPeriod(firstKey, settings); period.key <= lastKey; period = shiftPeriod(period, 1, settings)) {
+        const { income, expense } = periodSummary[period.key] || { income: 0, expense: 0 };
+        // Weekly periods do not line up across years: the one containing the same date is used
+        const previousKey = getPeriod(addMonthsToKey(period.key, -12), settings).key;
+        const previous = previousKey >= firstKey ? periodSummary[previousKey] || { income: 0, expense: 0 } : undefined;
+        result.push({
+            key: period.key,
+            month: period.label,
+            income,
+            expense,
+            net: income - expense,
+            savingsRate: income > 0 ? ((income - expense) / income) * 100 : null,
+            previousIncome: previous?.income,
+            previousExpense: previous?.expense,
+        });
+    }
+    return result;
+};
+
+// Helper function to process raw transactions into daily expense data for the chart
+export const processDailyData = (transactions: Transaction[], period: BudgetPeriod): DailyData[] => {
+    const dailySummary: { [key: string]: number } = {};
+
+    transactions
+        .filter(tx => isInPeriod(tx.date, period) && tx.type === TransactionType.EXPENSE)
+        .forEach(tx => {
+            const day = tx.date.substring(0, 10); // "YYYY-MM-DD", a period can span two months
+            if (!dailySummary[day]) {
+                dailySummary[day] = 0;
+            }
+            dailySummary[day] += tx.amount;
+        });
+    
+    return Object.keys(dailySummary).sort().map(day => ({
+        date: day,
+        day: formatPeriodDay(day),
+        expense: dailySummary[day],
+    }));
+};
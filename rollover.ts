@@ -0,0 +1,63 @@
+import { Transaction, TransactionType, TransactionSource, BudgetPeriod, RolloverEntry } from './types';
+import { isInPeriod } from './period';
+
+const getRolloverId = (periodKey: string): string => `rollover-${periodKey}`;
+
+// Settlements that currently count towards the balances
+export const isActiveRollover = (entry: RolloverEntry): boolean => !entry.undoneAt;
+
+// Whether the period before currentPeriodKey has been settled. Any entry reaching the current
+// period counts, even an undone one (undoing is a decision to not carry the amount, not a request
+// to settle again) or one from before the period settings changed. lastRolloverMarker is the
+// LAST_ROLLOVER_MONTH config value written before the ledger existed ("YYYY-MM" or a period key).
+export const isPreviousPeriodSettled = (entries: RolloverEntry[], currentPeriodKey: string, lastRolloverMarker: string): boolean =>
+    entries.some(entry => entry.periodEnd >= currentPeriodKey)
+    || (!!lastRolloverMarker && (lastRolloverMarker >= currentPeriodKey || currentPeriodKey.startsWith(lastRolloverMarker)));
+
+// Builds the ledger entry for a finished period. transactions must be in the base currency, like the goal.
+export const createRolloverEntry = (
+    period: BudgetPeriod,
+    transactions: Transaction[],
+    goal: number,
+    currency: string,
+    toAccountAmount: (amount: number) => number,
+): RolloverEntry => {
+    const periodTransactions = transactions.filter(tx => isInPeriod(tx.date, period));
+
+    const spent = periodTransactions
+        .filter(tx => tx.type === TransactionType.EXPENSE)
+        .reduce((sum, tx) => sum + tx.amount, 0);
+
+    const transferOutFromGeneral = periodTransactions
+        .filter(tx => tx.type === TransactionType.TRANSFER && tx.source === TransactionSource.GENERAL)
+        .reduce((sum, tx) => sum + tx.amount, 0);
+
+    const used = spent + transferOutFromGeneral;
+    // Only a surplus is carried; an overspent period is recorded with nothing carried
+    const carried = Math.max(0, goal - used);
+
+    return {
+        id: getRolloverId(period.key),
+        period: period.key,
+        periodEnd: period.endKey,
+        goal,
+        used,
+        carried,
+        currency,
+        account: TransactionSource.GENERAL,
+        accountAmount: carried > 0 ? toAccountAmount(carried) : 0,
+        appliedAt: new Date().toISOString(),
+    };
+};
+
+// Keeps the first entry of each id; two devices racing on the Sheets backend can both append a row
+export const dedupeRollovers = (entries: RolloverEntry[]): RolloverEntry[] => {
+    const seen = new Set<string>();
+    return entries
+        .filter(entry => {
+            if (seen.has(entry.id)) return false;
+            seen.add(entry.id);
+            return true;
+        })
+        .sort((a, b) => b.period.localeCompare(a.period));
+};
@@ -0,0 +1,199 @@
+import { ConfigRepository, TRANSACTIONS_SHEET_NAME, CONFIG_SHEET_NAME, TRANSACTION_HEADERS, sheets } from './data';
+
+// Layout versions of a tracker spreadsheet. The version is stored in the Config sheet; spreadsheets
+// from before it existed are recognised by their Transactions header row.
+//   0: Transactions A:G without a header row
+//   1: header row over A:G (id, date, description, amount, type, source, destination)
+//   2: category, tags and currency in H:J
+//   3: updatedAt in K, used to detect edits made on another device
+//   4: goal in L, the savings goal a transfer into the provision account is assigned to
+//   5: debt in M, the loan or debt a repayment belongs to
+export const SCHEMA_VERSION_KEY = 'SCHEMA_VERSION';
+export const CURRENT_SCHEMA_VERSION = 5;
+
+const REQUIRED_SHEETS = [TRANSACTIONS_SHEET_NAME, CONFIG_SHEET_NAME];
+
+interface MigrationContext {
+    spreadsheetId: string;
+    sheetIds: { [title: string]: number };
+}
+
+// One step from `version - 1` to `version`. New columns only ever get a migration that fills in
+// their header: rows written before them simply have empty cells, which every reader tolerates.
+interface Migration {
+    version: number;
+    description: string;
+    run(context: MigrationContext): Promise<void>;
+}
+
+const MIGRATIONS: Migration[] = [
+    {
+        version: 1,
+        description: 'Chèn dòng tiêu đề vào đầu sheet Transactions (dữ liệu hiện có được dời xuống một dòng).',
+        async run({ spreadsheetId, sheetIds }) {
+            await sheets().batchUpdate({
+                spreadsheetId,
+                resource: {
+                    requests: [{
+                        insertDimension: {
+                            range: { sheetId: sheetIds[TRANSACTIONS_SHEET_NAME], dimension: 'ROWS', startIndex: 0, endIndex: 1 },
+                            inheritFromBefore: false,
+                        },
+                    }],
+                },
+            });
+            await sheets().values.update({
+                spreadsheetId,
+                range: `${TRANSACTIONS_SHEET_NAME}!A1:G1`,
+                valueInputOption: 'RAW',
+                resource: { values: [TRANSACTION_HEADERS.slice(0, 7)] },
+            });
+        },
+    },
+    {
+        version: 2,
+        description: 'Thêm các cột category, tags và currency (H:J) vào sheet Transactions.',
+        async run({ spreadsheetId }) {
+            await sheets().values.update({
+                spreadsheetId,
+                range: `${TRANSACTIONS_SHEET_NAME}!H1:J1`,
+                valueInputOption: 'RAW',
+                resource: { values: [TRANSACTION_HEADERS.slice(7, 10)] },
+            });
+        },
+    },
+    {
+        version: 3,
+        description: 'Thêm cột updatedAt (K) vào sheet Transactions để phát hiện thay đổi từ thiết bị khác.',
+        async run({ spreadsheetId }) {
+            await sheets().values.update({
+                spreadsheetId,
+                range: `${TRANSACTIONS_SHEET_NAME}!K1`,
+                valueInputOption: 'RAW',
+                resource: { values: [TRANSACTION_HEADERS.slice(10, 11)] },
+            });
+        },
+    },
+    {
+        version: 4,
+        description: 'Thêm cột goal (L) vào sheet Transactions để gán khoản chuyển vào quỹ dự phòng cho mục tiêu tiết kiệm.',
+        async run({ spreadsheetId }) {
+            await sheets().values.update({
+                spreadsheetId,
+                range: `${TRANSACTIONS_SHEET_NAME}!L1`,
+                valueInputOption: 'RAW',
+                resource: { values: [TRANSACTION_HEADERS.slice(11, 12)] },
+            });
+        },
+    },
+    {
+        version: 5,
+        description: 'Thêm cột debt (M) vào sheet Transactions để liên kết khoản trả nợ với khoản vay.',
+        async run({ spreadsheetId }) {
+            await sheets().values.update({
+                spreadsheetId,
+                range: `${TRANSACTIONS_SHEET_NAME}!M1`,
+                valueInputOption: 'RAW',
+                resource: { values: [TRANSACTION_HEADERS.slice(12, 13)] },
+            });
+        },
+    },
+];
+
+// What has to happen before the app can use a spreadsheet
+export interface SchemaPlan {
+    missingSheets: string[];
+    // The Transactions sheet exists but is empty: it only needs its header row
+    needsHeader: boolean;
+    version: number; // Detected layout version
+    migrations: { version: number, description: string }[];
+    // The spreadsheet was upgraded by a newer version of the app, which this one cannot safely write to
+    isNewer: boolean;
+    // Whether the detected version still has to be recorded in the Config sheet
+    needsVersionStamp: boolean;
+}
+
+// Steps the user has to confirm; recording the version alone changes nothing and is done silently
+export const needsConfirmation = (plan: SchemaPlan): boolean =>
+    plan.isNewer || plan.missingSheets.length > 0 || plan.needsHeader || plan.migrations.length > 0;
+
+const detectVersion = (storedVersion: number | undefined, headerRow: string[], hasRows: boolean): number => {
+    if (storedVersion !== undefined) return storedVersion;
+    if (!hasRows) return CURRENT_SCHEMA_VERSION; // Nothing to migrate, the header is written as-is
+    if (headerRow[0] !== TRANSACTION_HEADERS[0]) return 0;
+    if (headerRow.length >= TRANSACTION_HEADERS.length) return CURRENT_SCHEMA_VERSION;
+    if (headerRow.length >= 12) return 4;
+    if (headerRow.length >= 11) return 3;
+    return headerRow.length >= 10 ? 2 : 1;
+};
+
+// Reads just enough of the spreadsheet to tell which sheets, headers and migrations are missing
+export const inspectSpreadsheet = async (spreadsheetId: string): Promise<SchemaPlan> => {
+    const meta = await sheets().get({ spreadsheetId });
+    const titles: string[] = meta.result.sheets.map((sheet: any) => sheet.properties.title);
+    const missingSheets = REQUIRED_SHEETS.filter(title => !titles.includes(title));
+
+    let storedVersion: number | undefined;
+    if (titles.includes(CONFIG_SHEET_NAME)) {
+        const response = await sheets().values.get({ spreadsheetId, range: `${CONFIG_SHEET_NAME}!A:B` });
+        const row = (response.result.values || []).find((r: string[]) => r[0] === SCHEMA_VERSION_KEY);
+        const parsed = parseInt(row?.[1], 10);
+        if (!isNaN(parsed)) storedVersion = parsed;
+    }
+
+    let headerRow: string[] = [];
+    let hasRows = false;
+    if (titles.includes(TRANSACTIONS_SHEET_NAME)) {
+        const response = await sheets().values.get({ spreadsheetId, range: `${TRANSACTIONS_SHEET_NAME}!A1:M2` });
+        const values: string[][] = response.result.values || [];
+        hasRows = values.length > 0;
+        headerRow = (values[0] || []).map(cell => String(cell).trim().toLowerCase());
+    }
+
+    const version = detectVersion(storedVersion, headerRow, hasRows);
+    return {
+        missingSheets,
+        needsHeader: !hasRows,
+        version,
+        migrations: MIGRATIONS
+            .filter(migration => migration.version > version)
+            .map(({ version, description }) => ({ version, description })),
+        isNewer: version > CURRENT_SCHEMA_VERSION,
+        needsVersionStamp: storedVersion !== CURRENT_SCHEMA_VERSION,
+    };
+};
+
+// Creates the missing sheets, writes the header row and runs the pending migrations in order.
+// The version is recorded after every migration, so an interrupted run resumes where it stopped.
+export const applySchemaPlan = async (spreadsheetId: string, plan: SchemaPlan, config: ConfigRepository): Promise<void> => {
+    if (plan.isNewer) throw new Error('Bảng tính dùng cấu trúc mới hơn phiên bản ứng dụng này.');
+
+    if (plan.missingSheets.length > 0) {
+        await sheets().batchUpdate({
+            spreadsheetId,
+            resource: { requests: plan.missingSheets.map(title => ({ addSheet: { properties: { title } } })) },
+        });
+    }
+
+    if (plan.needsHeader) {
+        await sheets().values.update({
+            spreadsheetId,
+            range: `${TRANSACTIONS_SHEET_NAME}!A1:M1`,
+            valueInputOption: 'RAW',
+            resource: { values: [TRANSACTION_HEADERS] },
+        });
+    } else if (plan.migrations.length > 0) {
+        const meta = await sheets().get({ spreadsheetId });
+        const sheetIds: { [title: string]: number } = {};
+        meta.result.sheets.forEach((sheet: any) => { sheetIds[sheet.properties.title] = sheet.properties.sheetId; });
+
+        for (const pending of plan.migrations) {
+            const migration = MIGRATIONS.find(m => m.version === pending.version);
+            if (!migration) continue;
+            await migration.run({ spreadsheetId, sheetIds });
+            await config.save({ [SCHEMA_VERSION_KEY]: migration.version.toString() });
+        }
+    }
+
+    await config.save({ [SCHEMA_VERSION_KEY]: CURRENT_SCHEMA_VERSION.toString() });
+};
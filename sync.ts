@@ -0,0 +1,131 @@
+import { Transaction, OutboxEntry, OutboxOperation, OutboxStatus, QuarantinedRow } from './types';
+import { Outbox, TransactionRepository, getErrorMessage, getConflictRemote, isSameTransaction } from './data';
+
+export interface ReplayResult {
+    // Transactions as stored by the backend after a successful add or update (with their rowIndex)
+    saved: Transaction[];
+    conflicts: OutboxEntry[];
+    // True when replay stopped early because the backend could not be reached
+    interrupted: boolean;
+}
+
+// Errors worth retrying later (offline, signed out, rate limited, server hiccups) as opposed to real conflicts
+export const isTransientError = (err: any): boolean => {
+    if (!navigator.onLine) return true;
+    const status = err?.status ?? err?.result?.error?.code;
+    return typeof status === 'number' && (status <= 0 || status === 401 || status === 408 || status === 429 || status >= 500);
+};
+
+// A write whose response was lost (timeout, server error, expired sign-in) may still have reached
+// the backend, so an insert is looked up by id before it is attempted again
+const findStored = async (repository: TransactionRepository, id: string): Promise<Transaction | QuarantinedRow | undefined> => {
+    const { transactions, quarantined } = await repository.load();
+    return transactions.find(tx => tx.id === id) ?? quarantined.find(row => row.cells[0] === id);
+};
+
+// Replays pending entries in the order they were queued. A transient error stops the
+// replay so later mutations never overtake earlier ones; anything else becomes a conflict.
+export const replayOutbox = async (outbox: Outbox, repository: TransactionRepository): Promise<ReplayResult> => {
+    const result: ReplayResult = { saved: [], conflicts: [], interrupted: false };
+    const entries = await outbox.list();
+
+    for (const entry of entries) {
+        if (entry.status !== OutboxStatus.PENDING || entry.id === undefined) continue;
+        try {
+            if (isQueuedInsert(entry)) {
+                const stored = await findStored(repository, entry.transaction.id);
+                if (!stored) {
+                    result.saved.push(await (entry.operation === OutboxOperation.ADD
+                        ? repository.add(entry.transaction)
+                        : repository.restore(entry.transaction)));
+                } else if ('id' in stored) {
+                    // An earlier attempt landed: keep the row it wrote
+                    result.saved.push(stored);
+                }
+            } else if (entry.operation === OutboxOperation.UPDATE) {
+                result.saved.push(await repository.update(entry.transaction, entry.base));
+            } else {
+                await repository.remove(entry.transaction);
+            }
+            await outbox.remove(entry.id);
+        } catch (err) {
+            if (isTransientError(err)) {
+                await outbox.update({ ...entry, attempts: entry.attempts + 1, error: getErrorMessage(err) });
+                result.interrupted = true;
+                break;
+            }
+            const conflict: OutboxEntry = { ...entry, attempts: entry.attempts + 1, status: OutboxStatus.CONFLICT, error: getErrorMessage(err), remote: getConflictRemote(err) };
+            await outbox.update(conflict);
+            result.conflicts.push(conflict);
+        }
+    }
+
+    return result;
+};
+
+// Entries that create a row, as opposed to changing or removing an existing one
+export const isQueuedInsert = (entry: OutboxEntry): boolean =>
+    entry.operation === OutboxOperation.ADD || entry.operation === OutboxOperation.RESTORE;
+
+// Overlays mutations that are still queued onto a list freshly loaded from the backend
+export const applyOutboxEntries = (transactions: Transaction[], entries: OutboxEntry[]): Transaction[] => {
+    let result = transactions;
+    entries.forEach(entry => {
+        if (isQueuedInsert(entry)) {
+            if (!result.some(tx => tx.id === entry.transaction.id)) result = [...result, entry.transaction];
+        } else if (entry.operation === OutboxOperation.UPDATE) {
+            result = result.map(tx => tx.id === entry.transaction.id ? entry.transaction : tx);
+        } else {
+            result = result.filter(tx => tx.id !== entry.transaction.id);
+        }
+    });
+    return result;
+};
+
+// What another device changed, as seen by comparing two loads of the transactions
+export interface TransactionChanges {
+    added: Transaction[];
+    changed: Transaction[];
+    removed: Transaction[];
+}
+
+export const hasChanges = (changes: TransactionChanges): boolean =>
+    changes.added.length > 0 || changes.changed.length > 0 || changes.removed.length > 0;
+
+// Compares by id and stored fields; a row that merely moved (rowIndex) is not a change
+export const diffTransactions = (before: Transaction[], after: Transaction[]): TransactionChanges => {
+    const beforeById = new Map(before.map(tx => [tx.id, tx]));
+    const afterIds = new Set(after.map(tx => tx.id));
+    return {
+        added: after.filter(tx => !beforeById.has(tx.id)),
+        changed: after.filter(tx => beforeById.has(tx.id) && !isSameTransaction(beforeById.get(tx.id) as Transaction, tx)),
+        removed: before.filter(tx => !afterIds.has(tx.id)),
+    };
+};
+
+// Folds a newer diff into changes that have not been dismissed yet. A row added and then
+// edited stays "added"; a row added and then removed disappears altogether.
+export const mergeChanges = (earlier: TransactionChanges, later: TransactionChanges): TransactionChanges => {
+    const laterIds = new Set([...later.added, ...later.changed, ...later.removed].map(tx => tx.id));
+    const earlierAddedIds = new Set(earlier.added.map(tx => tx.id));
+    return {
+        added: [
+            ...earlier.added.filter(tx => !laterIds.has(tx.id)),
+            ...later.added,
+            ...later.changed.filter(tx => earlierAddedIds.has(tx.id)),
+        ],
+        changed: [
+            ...earlier.changed.filter(tx => !laterIds.has(tx.id)),
+            ...later.changed.filter(tx => !earlierAddedIds.has(tx.id)),
+        ],
+        removed: [...earlier.removed, ...later.removed.filter(tx => !earlierAddedIds.has(tx.id))],
+    };
+};
+
+// Runs the task while holding a browser-wide lock, so tabs of the same app never run it concurrently.
+// Browsers without the Web Locks API simply run the task.
+export const runExclusive = async <T>(name: string, task: () => Promise<T>): Promise<T> => {
+    const locks = (navigator as any).locks;
+    if (!locks?.request) return task();
+    return locks.request(name, task);
+};
@@ -4,29 +4,288 @@ export enum TransactionType {
   TRANSFER = 'TRANSFER',
 }
 
+// Ids of the two built-in accounts. Rows written before user-defined accounts existed use them as-is.
 export enum TransactionSource {
   GENERAL = 'GENERAL',
   PROVISION = 'PROVISION',
 }
 
+export interface Account {
+  id: string; // TransactionSource value for the built-in accounts
+  name: string;
+  initialBalance: number; // In the account's currency
+  currency: string; // ISO 4217 code
+}
+
 export interface Transaction {
   id: string;
   date: string; // ISO string format
   description: string;
   amount: number;
+  currency?: string; // ISO 4217 code; the source account's currency when missing
   type: TransactionType;
-  source: TransactionSource;
-  destination?: TransactionSource; // For transfers
-  rowIndex?: number; // The row number in the Google Sheet
+  source: string; // Account id
+  destination?: string; // Account id, for transfers
+  category?: string; // One of the categories listed in the Config sheet
+  tags?: string[];
+  rowIndex?: number; // The row number in the Google Sheet when last read; writes re-resolve it by id
+  updatedAt?: string; // ISO string format; stamped on every write to the Google Sheet
+  goal?: string; // SavingsGoal id, for money moved into or out of the provision account
+  debt?: string; // Debt id, for a repayment made or received
 }
 
 export interface MonthlyData {
-  month: string; // "YYYY-MM" format
+  key: string; // First day of the period, "YYYY-MM-DD"
+  month: string; // Budget period label, e.g. "15/01/2025" or "01/2025"
   income: number;
   expense: number;
+  net: number; // Income minus expense
+  savingsRate: number | null; // Net as a percentage of income; null when there was no income
+  // The period covering the same dates a year earlier; missing before the first year with data
+  previousIncome?: number;
+  previousExpense?: number;
+}
+
+// One day of the account balance history, every amount converted to the base currency
+export interface BalanceHistoryPoint {
+  date: string; // "YYYY-MM-DD"
+  total: number; // Net worth: the sum of all accounts plus `debts`
+  balances: { [accountId: string]: number };
+  debts: number; // Money lent out minus money owed, 0 without debts
+}
+
+export enum BalanceMarkerKind {
+  ROLLOVER = 'ROLLOVER',
+  LARGE_TRANSFER = 'LARGE_TRANSFER',
+}
+
+// An event worth pointing out on the balance history
+export interface BalanceMarker {
+  date: string; // "YYYY-MM-DD"
+  kind: BalanceMarkerKind;
+  label: string;
+  amount: number; // In the base currency
+  accountId: string; // The account credited by a rollover, the source of a transfer
+  destination?: string; // For transfers
 }
 
 export interface DailyData {
-    day: string; // "DD"
+    date: string; // "YYYY-MM-DD"
+    day: string; // "DD/MM"
     expense: number;
-}
\ No newline at end of file
+}
+
+// Projected spending for one of the days still ahead in the current period
+export interface ForecastDay {
+    date: string; // "YYYY-MM-DD"
+    day: string; // "DD/MM"
+    expected: number;
+    low: number;
+    high: number;
+}
+
+export interface CategoryData {
+    category: string;
+    expense: number;
+}
+
+export interface CategoryBudgetStatus {
+    category: string;
+    budget: number;
+    spent: number;
+    progress: number; // Percentage of the budget used, not capped at 100
+    threshold: number; // Highest alert threshold reached (0 when below all of them)
+}
+
+export enum StorageMode {
+  SHEETS = 'SHEETS',
+  LOCAL = 'LOCAL',
+}
+
+export type ConnectionConfig =
+  | { mode: StorageMode.SHEETS; apiKey: string; clientId: string; spreadsheetId: string }
+  | { mode: StorageMode.LOCAL };
+
+// A named, saved connection so the settings don't have to be typed in again
+export interface ConnectionProfile {
+  id: string;
+  name: string;
+  connection: ConnectionConfig;
+  lastUsedAt?: string; // ISO timestamp
+}
+
+// Raw key/value pairs from the Config sheet (column A = key, column B = value)
+export interface ConfigValues {
+  [key: string]: string;
+}
+
+export enum OutboxOperation {
+  ADD = 'ADD',
+  UPDATE = 'UPDATE',
+  REMOVE = 'REMOVE',
+  RESTORE = 'RESTORE', // Re-inserts a removed transaction at its former row (undo of a delete)
+}
+
+export enum OutboxStatus {
+  PENDING = 'PENDING',
+  CONFLICT = 'CONFLICT', // Replay was rejected by the server; needs the user to retry or discard
+}
+
+// A mutation waiting to be replayed against the Transactions sheet
+export interface OutboxEntry {
+  id?: number; // Auto-incremented by IndexedDB, so entries replay in the order they were queued
+  scope: string; // Spreadsheet ID the mutation belongs to
+  operation: OutboxOperation;
+  transaction: Transaction;
+  createdAt: string; // ISO string format
+  attempts: number;
+  status: OutboxStatus;
+  error?: string;
+  // For updates: the version the edit was made from. Replay refuses to overwrite a row that no longer matches it.
+  base?: Transaction;
+  // For conflicts: the row as it was found on the backend
+  remote?: Transaction;
+}
+
+export enum RecurrenceFrequency {
+  DAILY = 'DAILY',
+  WEEKLY = 'WEEKLY',
+  MONTHLY = 'MONTHLY',
+  CUSTOM_DAYS = 'CUSTOM_DAYS', // Fixed days of every month, e.g. the 1st and the 15th
+}
+
+// Length of the budget period that goals, budgets, charts and the rollover are computed over
+export enum BudgetPeriodType {
+  MONTHLY = 'MONTHLY', // From a fixed day of one month to the same day of the next
+  WEEKLY = 'WEEKLY',
+  BIWEEKLY = 'BIWEEKLY', // Every other week, e.g. a fortnightly payday
+}
+
+export interface PeriodSettings {
+  type: BudgetPeriodType;
+  startDay: number; // Day of the month a monthly period starts on (1-31, clamped in short months)
+  anchorDate: string; // "YYYY-MM-DD" of any weekly/biweekly period start
+}
+
+export interface BudgetPeriod {
+  key: string; // "YYYY-MM-DD" of the first day
+  endKey: string; // "YYYY-MM-DD" of the day after the last day
+  label: string; // Short label for chart axes
+}
+
+// A template that produces a transaction on every occurrence of its schedule
+export interface RecurringTemplate {
+  id: string;
+  description: string;
+  amount: number;
+  currency?: string;
+  type: TransactionType;
+  source: string; // Account id
+  destination?: string; // Account id, for transfers
+  category?: string;
+  tags?: string[];
+  frequency: RecurrenceFrequency;
+  interval: number; // Every N days/weeks/months; ignored for CUSTOM_DAYS
+  daysOfMonth: number[]; // Only for CUSTOM_DAYS
+  startDate: string; // "YYYY-MM-DD"
+  endDate?: string; // "YYYY-MM-DD", inclusive
+  paused: boolean;
+  lastOccurrence?: string; // "YYYY-MM-DD" of the latest occurrence turned into a transaction
+}
+
+// One dated quote: 1 unit of `from` is worth `rate` units of `to`
+export interface ExchangeRate {
+  id: string;
+  date: string; // "YYYY-MM-DD"
+  from: string; // ISO 4217 code, e.g. "USD"
+  to: string;
+  rate: number;
+}
+
+// One settlement of a finished budget period: what was left of the income goal is carried
+// into an account. Undone entries stay in the ledger for the audit trail.
+export interface RolloverEntry {
+  id: string; // "rollover-<period key>", so two tabs settling the same period write the same record
+  period: string; // Key of the settled period ("YYYY-MM-DD" of its first day)
+  periodEnd: string; // "YYYY-MM-DD" of the day after its last day
+  goal: number; // Income goal of the period, in the base currency
+  used: number; // Expenses plus transfers out of the main account, in the base currency
+  carried: number; // Amount carried over in the base currency, 0 when the goal was used up
+  currency: string; // Base currency the amounts above are in
+  account: string; // Account the carried amount was added to
+  accountAmount: number; // Carried amount in the account's currency
+  appliedAt: string; // ISO timestamp
+  undoneAt?: string; // ISO timestamp, set while the settlement is undone
+}
+
+// Something saved up for in the provision account, e.g. an emergency fund or a trip. Progress is not
+// stored: it is recomputed from the transactions assigned to the goal.
+export interface SavingsGoal {
+  id: string;
+  name: string;
+  targetAmount: number; // In the provision account's currency
+  targetDate: string; // "YYYY-MM-DD"
+  createdAt: string; // ISO timestamp
+}
+
+export interface SavingsGoalProgress {
+  goal: SavingsGoal;
+  saved: number; // Net amount assigned to the goal so far, in the provision account's currency
+  remaining: number; // 0 once the target is reached
+  progress: number; // Percentage of the target, capped at 100
+  monthsLeft: number; // Until the target date, rounded up; 0 once it has passed
+  requiredMonthly: number; // Contribution per month still needed to reach the target on time
+  isOverdue: boolean; // The target date has passed without the target being reached
+}
+
+export enum DebtDirection {
+  BORROWED = 'BORROWED', // We owe the counterparty
+  LENT = 'LENT', // The counterparty owes us
+}
+
+// A loan, a debt to a friend or an installment purchase. The outstanding balance is not stored:
+// it is recomputed from the repayment transactions linked to the debt.
+export interface Debt {
+  id: string;
+  name: string;
+  counterparty: string;
+  direction: DebtDirection;
+  principal: number;
+  currency: string;
+  annualRate: number; // Interest rate in percent per year, 0 for an interest-free loan
+  termMonths: number;
+  startDate: string; // "YYYY-MM-DD"; the first installment is due one month later
+  createdAt: string; // ISO timestamp
+}
+
+// One installment of the planned repayment
+export interface AmortizationRow {
+  number: number; // 1-based
+  date: string; // "YYYY-MM-DD"
+  payment: number;
+  interest: number;
+  principal: number;
+  balance: number; // Left to repay after this installment
+}
+
+// The outstanding balance of a debt from `date` on, until the next step
+export interface DebtBalanceStep {
+  date: string; // "YYYY-MM-DD"
+  outstanding: number; // In the debt's currency
+}
+
+export interface DebtStatus {
+  debt: Debt;
+  schedule: AmortizationRow[];
+  repaid: number; // Sum of the linked repayments, in the debt's currency
+  outstanding: number; // Principal plus interest charged minus repayments, as of today; 0 before the start date
+  history: DebtBalanceStep[]; // Oldest first, from the start date up to today
+  nextInstallment?: AmortizationRow; // First scheduled installment after today
+}
+
+// A sheet row that could not be read as a transaction. It is left out of every total until it is fixed.
+export interface QuarantinedRow {
+  rowIndex: number; // Row number in the sheet when it was read
+  cells: string[]; // Raw values of columns A:M
+  problems: string[];
+}
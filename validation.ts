@@ -0,0 +1,89 @@
+import { TransactionType, TransactionSource } from './types';
+import { DateFormat, parseImportAmount, parseImportDate } from './importer';
+
+// Normalizers for cells typed or reformatted by hand in the spreadsheet. Each returns undefined
+// when the value cannot be understood, so the row can be set aside instead of counted wrongly.
+
+const TYPE_ALIASES: { [alias: string]: TransactionType } = {
+    'income': TransactionType.INCOME,
+    'thu nhập': TransactionType.INCOME,
+    'thu': TransactionType.INCOME,
+    'expense': TransactionType.EXPENSE,
+    'chi tiêu': TransactionType.EXPENSE,
+    'chi': TransactionType.EXPENSE,
+    'transfer': TransactionType.TRANSFER,
+    'chuyển khoản': TransactionType.TRANSFER,
+};
+
+export const normalizeTransactionType = (value: string): TransactionType | undefined =>
+    TYPE_ALIASES[(value || '').trim().toLowerCase()];
+
+// Built-in account ids are matched case-insensitively; other ids are user-defined and kept as they are
+export const normalizeAccountId = (value: string): string => {
+    const text = (value || '').trim();
+    const builtIn = Object.values(TransactionSource).find(id => id === text.toUpperCase());
+    return builtIn || text;
+};
+
+// Amounts are stored positive; the transaction type carries the direction
+export const normalizeAmount = (value: string): number | undefined => {
+    const amount = parseImportAmount(String(value ?? ''));
+    return amount !== undefined && amount > 0 ? amount : undefined;
+};
+
+// Days between the Sheets serial date epoch (1899-12-30) and the Unix epoch
+const SHEETS_EPOCH_OFFSET_DAYS = 25569;
+// Serial numbers outside 1970–2099 are far more likely a stray number than a date
+const MIN_SERIAL_DATE = SHEETS_EPOCH_OFFSET_DAYS;
+const MAX_SERIAL_DATE = 73051;
+
+// Spreadsheet locales that write dates month-first or year-first; the rest of the locales the app
+// is used with (vi_VN, en_GB, fr_FR...) are day-first
+const MDY_LOCALES = ['en_US', 'es_US', 'en_PH', 'fil_PH'];
+const YMD_LOCALES = ['zh_CN', 'zh_TW', 'ja_JP', 'ko_KR', 'hu_HU', 'lt_LT', 'sv_SE'];
+const DMY_LOCALES = ['vi_VN', 'en_GB', 'en_AU', 'en_NZ', 'en_IN', 'fr_FR', 'de_DE', 'es_ES', 'it_IT', 'nl_NL', 'pt_BR', 'pt_PT', 'ru_RU', 'th_TH', 'id_ID'];
+
+// Order in which a spreadsheet with this locale (e.g. "vi_VN") shows typed dates; undefined when unknown
+export const getLocaleDateOrder = (locale: string | undefined): DateFormat | undefined => {
+    if (!locale) return undefined;
+    if (MDY_LOCALES.includes(locale)) return 'MDY';
+    if (YMD_LOCALES.includes(locale)) return 'YMD';
+    return DMY_LOCALES.includes(locale) ? 'DMY' : undefined;
+};
+
+// Accepts the ISO timestamps the app writes, serial day numbers and dates re-typed by hand. Typed
+// dates are read in the spreadsheet's date order; without one, a date is only accepted when its
+// day cannot be mistaken for its month. ISO values are returned untouched so unchanged rows still
+// compare equal to what the app wrote.
+export const parseSheetDate = (value: string, order?: DateFormat): { date?: string, problem?: string } => {
+    const text = String(value ?? '').trim();
+    const invalid = { problem: `Ngày không hợp lệ: "${text}"` };
+    if (!text) return invalid;
+    if (/^\d{4}-\d{2}-\d{2}/.test(text)) {
+        return isNaN(new Date(text).getTime()) ? invalid : { date: text };
+    }
+    if (/^\d+(\.\d+)?$/.test(text)) {
+        const serial = parseFloat(text);
+        if (serial < MIN_SERIAL_DATE || serial >= MAX_SERIAL_DATE) return invalid;
+        return { date: new Date((serial - SHEETS_EPOCH_OFFSET_DAYS) * 24 * 60 * 60 * 1000).toISOString() };
+    }
+
+    let format = order;
+    const parts = text.match(/^(\d{1,2})[/.-](\d{1,2})[/.-]\d{2,4}/);
+    if (!format && parts) {
+        const [first, second] = [parseInt(parts[1], 10), parseInt(parts[2], 10)];
+        if (first > 12) format = 'DMY';
+        else if (second > 12 || first === second) format = 'MDY';
+        else return { problem: `Ngày "${text}" có thể là ngày/tháng hoặc tháng/ngày; hãy nhập lại theo dạng YYYY-MM-DD` };
+    }
+    const key = parseImportDate(text, format || 'YMD');
+    return key ? { date: new Date(key).toISOString() } : invalid;
+};
+
+export const normalizeSheetDate = (value: string, order?: DateFormat): string | undefined =>
+    parseSheetDate(value, order).date;
+
+export const normalizeCurrency = (value: string): string | undefined => {
+    const code = (value || '').trim().toUpperCase();
+    return /^[A-Z]{3}$/.test(code) ? code : undefined;
+};